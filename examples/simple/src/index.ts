@@ -1,11 +1,8 @@
 import { Router } from 'itty-router';
-import { verifyKey } from 'discord-interactions';
-import { REST, API } from 'cloudflare-discord-js';
+import { REST, API, createDeferredResponse, verifyInteractionRequest } from 'cloudflare-discord-js';
 import { 
   InteractionType, 
   InteractionResponseType, 
-  type APIInteraction,
-  type APIApplicationCommandInteraction,
   type APIChatInputApplicationCommandInteraction 
 } from 'discord-api-types/v10';
 
@@ -18,23 +15,14 @@ export interface Env {
 
 const router = Router();
 
-router.post('/interactions', async (request: Request, env: Env) => {
-  const signature = request.headers.get('X-Signature-Ed25519')!;
-  const timestamp = request.headers.get('X-Signature-Timestamp')!;
-  const body = await request.text();
+router.post('/interactions', async (request: Request, env: Env, ctx: ExecutionContext) => {
+  const result = await verifyInteractionRequest(request, env.DISCORD_PUBLIC_KEY);
 
-  const isValidRequest = verifyKey(
-    body,
-    signature,
-    timestamp,
-    env.DISCORD_PUBLIC_KEY,
-  );
-
-  if (!isValidRequest) {
+  if (!result.valid) {
     return new Response('Bad request signature', { status: 401 });
   }
 
-  const interaction = JSON.parse(body) as APIInteraction;
+  const { interaction } = result;
 
   if (interaction.type === InteractionType.Ping) {
     return new Response(JSON.stringify({ type: InteractionResponseType.Pong }), {
@@ -64,32 +52,12 @@ router.post('/interactions', async (request: Request, env: Env) => {
       });
     }
 
-    // Example: Send a follow-up message
+    // Example: Defer the response and send the result once it is ready
     if (commandInteraction.data.name === 'followup') {
-      // Acknowledge first
-      const response = new Response(JSON.stringify({
-        type: InteractionResponseType.DeferredChannelMessageWithSource,
-      }), {
-        headers: { 'Content-Type': 'application/json' },
+      return createDeferredResponse(api, commandInteraction, ctx, async (deferred) => {
+        await deferred.editReply({ content: 'This is the deferred reply!' });
+        await deferred.followUp({ content: 'This is a follow-up message!' });
       });
-
-      // Send follow-up after response
-      request.headers.set('cf-worker', 'true');
-      const ctx = {
-        waitUntil: (promise: Promise<any>) => promise,
-      } as any;
-
-      ctx.waitUntil(
-        api.interactions.followUp(
-          env.DISCORD_APPLICATION_ID,
-          commandInteraction.token,
-          {
-            content: 'This is a follow-up message!',
-          },
-        ),
-      );
-
-      return response;
     }
   }
 
@@ -0,0 +1,209 @@
+import { Routes } from 'discord-api-types/v10';
+import type {
+  RESTGetAPIApplicationCommandsQuery,
+  RESTGetAPIApplicationCommandsResult,
+  RESTGetAPIApplicationCommandResult,
+  RESTPostAPIApplicationCommandsJSONBody,
+  RESTPostAPIApplicationCommandsResult,
+  RESTPatchAPIApplicationCommandJSONBody,
+  RESTPatchAPIApplicationCommandResult,
+  RESTPutAPIApplicationCommandsJSONBody,
+  RESTPutAPIApplicationCommandsResult,
+  RESTGetAPIApplicationGuildCommandsQuery,
+  RESTGetAPIApplicationGuildCommandsResult,
+  RESTGetAPIApplicationGuildCommandResult,
+  RESTPostAPIApplicationGuildCommandsJSONBody,
+  RESTPostAPIApplicationGuildCommandsResult,
+  RESTPatchAPIApplicationGuildCommandJSONBody,
+  RESTPatchAPIApplicationGuildCommandResult,
+  RESTPutAPIApplicationGuildCommandsJSONBody,
+  RESTPutAPIApplicationGuildCommandsResult,
+  RESTGetAPIGuildApplicationCommandsPermissionsResult,
+  RESTGetAPIApplicationCommandPermissionsResult,
+  RESTPutAPIApplicationCommandPermissionsJSONBody,
+  RESTPutAPIApplicationCommandPermissionsResult,
+  Snowflake,
+} from 'discord-api-types/v10';
+import type { REST, RequestData } from '../rest/index.js';
+import { makeURLSearchParams } from '../rest/REST.js';
+
+export class ApplicationCommandsAPI {
+  public constructor(private readonly rest: REST) {}
+
+  public async getGlobalCommands(
+    applicationId: Snowflake,
+    query: RESTGetAPIApplicationCommandsQuery = {},
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.applicationCommands(applicationId), {
+      query: makeURLSearchParams(query),
+      signal,
+    }) as Promise<RESTGetAPIApplicationCommandsResult>;
+  }
+
+  public async getGlobalCommand(
+    applicationId: Snowflake,
+    commandId: Snowflake,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.applicationCommand(applicationId, commandId), {
+      signal,
+    }) as Promise<RESTGetAPIApplicationCommandResult>;
+  }
+
+  public async createGlobalCommand(
+    applicationId: Snowflake,
+    body: RESTPostAPIApplicationCommandsJSONBody,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.post(Routes.applicationCommands(applicationId), {
+      body,
+      signal,
+    }) as Promise<RESTPostAPIApplicationCommandsResult>;
+  }
+
+  public async editGlobalCommand(
+    applicationId: Snowflake,
+    commandId: Snowflake,
+    body: RESTPatchAPIApplicationCommandJSONBody,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.patch(Routes.applicationCommand(applicationId, commandId), {
+      body,
+      signal,
+    }) as Promise<RESTPatchAPIApplicationCommandResult>;
+  }
+
+  public async deleteGlobalCommand(
+    applicationId: Snowflake,
+    commandId: Snowflake,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    await this.rest.delete(Routes.applicationCommand(applicationId, commandId), { signal });
+  }
+
+  /**
+   * Replaces all global commands of the application, commands missing from `body` are deleted
+   */
+  public async bulkOverwriteGlobalCommands(
+    applicationId: Snowflake,
+    body: RESTPutAPIApplicationCommandsJSONBody,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.put(Routes.applicationCommands(applicationId), {
+      body,
+      signal,
+    }) as Promise<RESTPutAPIApplicationCommandsResult>;
+  }
+
+  public async getGuildCommands(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    query: RESTGetAPIApplicationGuildCommandsQuery = {},
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.applicationGuildCommands(applicationId, guildId), {
+      query: makeURLSearchParams(query),
+      signal,
+    }) as Promise<RESTGetAPIApplicationGuildCommandsResult>;
+  }
+
+  public async getGuildCommand(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    commandId: Snowflake,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.applicationGuildCommand(applicationId, guildId, commandId), {
+      signal,
+    }) as Promise<RESTGetAPIApplicationGuildCommandResult>;
+  }
+
+  public async createGuildCommand(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    body: RESTPostAPIApplicationGuildCommandsJSONBody,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.post(Routes.applicationGuildCommands(applicationId, guildId), {
+      body,
+      signal,
+    }) as Promise<RESTPostAPIApplicationGuildCommandsResult>;
+  }
+
+  public async editGuildCommand(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    commandId: Snowflake,
+    body: RESTPatchAPIApplicationGuildCommandJSONBody,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.patch(Routes.applicationGuildCommand(applicationId, guildId, commandId), {
+      body,
+      signal,
+    }) as Promise<RESTPatchAPIApplicationGuildCommandResult>;
+  }
+
+  public async deleteGuildCommand(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    commandId: Snowflake,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    await this.rest.delete(Routes.applicationGuildCommand(applicationId, guildId, commandId), { signal });
+  }
+
+  /**
+   * Replaces all commands of the application in a guild, commands missing from `body` are deleted
+   */
+  public async bulkOverwriteGuildCommands(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    body: RESTPutAPIApplicationGuildCommandsJSONBody,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.put(Routes.applicationGuildCommands(applicationId, guildId), {
+      body,
+      signal,
+    }) as Promise<RESTPutAPIApplicationGuildCommandsResult>;
+  }
+
+  public async getGuildCommandsPermissions(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.guildApplicationCommandsPermissions(applicationId, guildId), {
+      signal,
+    }) as Promise<RESTGetAPIGuildApplicationCommandsPermissionsResult>;
+  }
+
+  public async getCommandPermissions(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    commandId: Snowflake,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.applicationCommandPermissions(applicationId, guildId, commandId), {
+      signal,
+    }) as Promise<RESTGetAPIApplicationCommandPermissionsResult>;
+  }
+
+  /**
+   * Overwrites the permissions of a command in a guild. Discord only accepts this with
+   * a Bearer token of a user who can manage the guild and its roles
+   */
+  public async editCommandPermissions(
+    applicationId: Snowflake,
+    guildId: Snowflake,
+    commandId: Snowflake,
+    body: RESTPutAPIApplicationCommandPermissionsJSONBody,
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+  ) {
+    return this.rest.put(Routes.applicationCommandPermissions(applicationId, guildId, commandId), {
+      auth,
+      body,
+      signal,
+    }) as Promise<RESTPutAPIApplicationCommandPermissionsResult>;
+  }
+}
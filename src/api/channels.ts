@@ -31,13 +31,14 @@ export class ChannelsAPI {
   public async createMessage(
     channelId: Snowflake,
     { files, ...body }: CreateMessageOptions,
-    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+    { auth, signal, maxUploadSize }: Pick<RequestData, 'auth' | 'signal' | 'maxUploadSize'> = {},
   ) {
     return this.rest.post(Routes.channelMessages(channelId), {
       auth,
       files,
       body,
       signal,
+      maxUploadSize,
     }) as Promise<RESTPostAPIChannelMessageResult>;
   }
 
@@ -45,13 +46,14 @@ export class ChannelsAPI {
     channelId: Snowflake,
     messageId: Snowflake,
     { files, ...body }: EditMessageOptions,
-    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+    { auth, signal, maxUploadSize }: Pick<RequestData, 'auth' | 'signal' | 'maxUploadSize'> = {},
   ) {
     return this.rest.patch(Routes.channelMessage(channelId, messageId), {
       auth,
       files,
       body,
       signal,
+      maxUploadSize,
     }) as Promise<RESTPatchAPIChannelMessageResult>;
   }
 
@@ -88,10 +90,11 @@ export class ChannelsAPI {
 
   public async get(
     channelId: Snowflake,
-    { signal }: Pick<RequestData, 'signal'> = {},
+    { signal, cache }: Pick<RequestData, 'signal' | 'cache'> = {},
   ) {
     return this.rest.get(Routes.channel(channelId), {
       signal,
+      cache,
     }) as Promise<RESTGetAPIChannelResult>;
   }
 
@@ -26,10 +26,11 @@ export class GuildsAPI {
 
   public async get(
     guildId: Snowflake,
-    { signal }: Pick<RequestData, 'signal'> = {},
+    { signal, cache }: Pick<RequestData, 'signal' | 'cache'> = {},
   ) {
     return this.rest.get(Routes.guild(guildId), {
       signal,
+      cache,
     }) as Promise<RESTGetAPIGuildResult>;
   }
 
@@ -96,10 +97,11 @@ export class GuildsAPI {
 
   public async getRoles(
     guildId: Snowflake,
-    { signal }: Pick<RequestData, 'signal'> = {},
+    { signal, cache }: Pick<RequestData, 'signal' | 'cache'> = {},
   ) {
     return this.rest.get(Routes.guildRoles(guildId), {
       signal,
+      cache,
     }) as Promise<RESTGetAPIGuildRolesResult>;
   }
 
@@ -5,6 +5,8 @@ import { WebhooksAPI } from './webhooks.js';
 import { UsersAPI } from './users.js';
 import { GuildsAPI } from './guilds.js';
 import { VoiceAPI } from './voice.js';
+import { OAuth2API } from './oauth2.js';
+import { ApplicationCommandsAPI } from './applicationCommands.js';
 
 export * from './channels.js';
 export * from './interactions.js';
@@ -12,6 +14,9 @@ export * from './webhooks.js';
 export * from './users.js';
 export * from './guilds.js';
 export * from './voice.js';
+export * from './oauth2.js';
+export * from './applicationCommands.js';
+export * from './syncCommands.js';
 
 export class API {
   public readonly channels: ChannelsAPI;
@@ -20,6 +25,8 @@ export class API {
   public readonly users: UsersAPI;
   public readonly guilds: GuildsAPI;
   public readonly voice: VoiceAPI;
+  public readonly oauth2: OAuth2API;
+  public readonly applicationCommands: ApplicationCommandsAPI;
 
   public constructor(public readonly rest: REST) {
     this.channels = new ChannelsAPI(rest);
@@ -27,6 +34,8 @@ export class API {
     this.users = new UsersAPI(rest);
     this.guilds = new GuildsAPI(rest);
     this.voice = new VoiceAPI(rest);
+    this.oauth2 = new OAuth2API(rest);
+    this.applicationCommands = new ApplicationCommandsAPI(rest);
     this.interactions = new InteractionsAPI(rest, this.webhooks);
   }
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { Routes } from 'discord-api-types/v10';
+import type {
+  RESTGetAPIOAuth2CurrentApplicationResult,
+  RESTGetAPIOAuth2CurrentAuthorizationResult,
+  RESTOAuth2AuthorizationQuery,
+  RESTOAuth2ImplicitAuthorizationQuery,
+  RESTPostOAuth2AccessTokenResult,
+  RESTPostOAuth2AccessTokenURLEncodedData,
+  RESTPostOAuth2ClientCredentialsResult,
+  RESTPostOAuth2ClientCredentialsURLEncodedData,
+  RESTPostOAuth2RefreshTokenResult,
+  RESTPostOAuth2RefreshTokenURLEncodedData,
+  RESTPostOAuth2TokenRevocationQuery,
+  Snowflake,
+} from 'discord-api-types/v10';
+import { toBase64URL } from '../crypto.js';
+import type { REST, RequestData } from '../rest/index.js';
+import { makeURLSearchParams } from '../rest/REST.js';
+
+export type OAuth2AuthorizationURLOptions = (RESTOAuth2AuthorizationQuery | RESTOAuth2ImplicitAuthorizationQuery) & {
+  /** PKCE challenge created by `createPKCEChallenge`, only used with the `code` response type */
+  code_challenge?: string;
+  code_challenge_method?: 'S256';
+};
+
+export type OAuth2TokenExchangeData = RESTPostOAuth2AccessTokenURLEncodedData & {
+  /** Verifier matching the `code_challenge` sent with the authorization URL */
+  code_verifier?: string;
+};
+
+export interface PKCEChallenge {
+  /** Kept secret until the code is exchanged */
+  code_verifier: string;
+  /** Sent with the authorization URL */
+  code_challenge: string;
+  code_challenge_method: 'S256';
+}
+
+export class OAuth2API {
+  public constructor(private readonly rest: REST) {}
+
+  /**
+   * Builds the URL users are sent to in order to authorize the application
+   */
+  public generateAuthorizationURL(options: OAuth2AuthorizationURLOptions): string {
+    const url = new URL(`${this.rest.options.api}${Routes.oauth2Authorization()}`);
+    url.search = makeURLSearchParams(options).toString();
+    return url.toString();
+  }
+
+  /**
+   * Exchanges the code from the authorization redirect for an access token
+   */
+  public async tokenExchange(
+    body: OAuth2TokenExchangeData,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.post(Routes.oauth2TokenExchange(), {
+      auth: false,
+      body: makeURLSearchParams(body),
+      passThroughBody: true,
+      signal,
+    }) as Promise<RESTPostOAuth2AccessTokenResult>;
+  }
+
+  public async refreshToken(
+    body: RESTPostOAuth2RefreshTokenURLEncodedData,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.post(Routes.oauth2TokenExchange(), {
+      auth: false,
+      body: makeURLSearchParams(body),
+      passThroughBody: true,
+      signal,
+    }) as Promise<RESTPostOAuth2RefreshTokenResult>;
+  }
+
+  /**
+   * Gets a token for the application owner through the client credentials grant
+   */
+  public async getToken(
+    applicationId: Snowflake,
+    applicationSecret: string,
+    body: RESTPostOAuth2ClientCredentialsURLEncodedData,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    return this.rest.post(Routes.oauth2TokenExchange(), {
+      auth: false,
+      headers: { Authorization: basicAuthorization(applicationId, applicationSecret) },
+      body: makeURLSearchParams(body),
+      passThroughBody: true,
+      signal,
+    }) as Promise<RESTPostOAuth2ClientCredentialsResult>;
+  }
+
+  public async revokeToken(
+    applicationId: Snowflake,
+    applicationSecret: string,
+    body: RESTPostOAuth2TokenRevocationQuery,
+    { signal }: Pick<RequestData, 'signal'> = {},
+  ) {
+    await this.rest.post(Routes.oauth2TokenRevocation(), {
+      auth: false,
+      headers: { Authorization: basicAuthorization(applicationId, applicationSecret) },
+      body: makeURLSearchParams(body),
+      passThroughBody: true,
+      signal,
+    });
+  }
+
+  public async getCurrentBotApplicationInformation(
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.oauth2CurrentApplication(), {
+      auth,
+      signal,
+    }) as Promise<RESTGetAPIOAuth2CurrentApplicationResult>;
+  }
+
+  /**
+   * Gets the scopes, expiry and user behind an access token, pass it as `{ type: 'Bearer', token }`
+   */
+  public async getCurrentAuthorizationInformation(
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.oauth2CurrentAuthorization(), {
+      auth,
+      signal,
+    }) as Promise<RESTGetAPIOAuth2CurrentAuthorizationResult>;
+  }
+}
+
+/**
+ * Creates a random value for the `state` parameter, to be checked against the one
+ * returned to the redirect URI
+ */
+export function generateOAuth2State(): string {
+  return toBase64URL(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Creates a PKCE verifier and its S256 challenge for the authorization code grant
+ */
+export async function createPKCEChallenge(): Promise<PKCEChallenge> {
+  const codeVerifier = toBase64URL(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+
+  return {
+    code_verifier: codeVerifier,
+    code_challenge: toBase64URL(new Uint8Array(digest)),
+    code_challenge_method: 'S256',
+  };
+}
+
+function basicAuthorization(applicationId: Snowflake, applicationSecret: string): string {
+  return `Basic ${btoa(`${applicationId}:${applicationSecret}`)}`;
+}
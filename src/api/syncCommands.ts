@@ -0,0 +1,197 @@
+import { ApplicationCommandType } from 'discord-api-types/v10';
+import type {
+  APIApplicationCommand,
+  RESTPatchAPIApplicationGuildCommandJSONBody,
+  RESTPostAPIApplicationCommandsJSONBody,
+  RESTPostAPIApplicationGuildCommandsJSONBody,
+  Snowflake,
+} from 'discord-api-types/v10';
+import type { RequestData } from '../rest/index.js';
+import type { API } from './index.js';
+
+export interface CommandSyncOptions extends Pick<RequestData, 'signal'> {
+  /** Defaults to the application of the bot token */
+  applicationId?: Snowflake;
+  /** Syncs the commands of this guild instead of the global ones */
+  guildId?: Snowflake;
+  /** Computes the report without changing anything */
+  dryRun?: boolean;
+}
+
+export interface CommandSyncChange {
+  definition: RESTPostAPIApplicationCommandsJSONBody;
+  existing: APIApplicationCommand;
+}
+
+export interface CommandSyncDiff {
+  /** Definitions with no registered command of the same type and name */
+  added: RESTPostAPIApplicationCommandsJSONBody[];
+  /** Registered commands whose definition changed */
+  changed: CommandSyncChange[];
+  /** Registered commands with no matching definition */
+  removed: APIApplicationCommand[];
+  unchanged: APIApplicationCommand[];
+}
+
+export interface CommandSyncReport extends CommandSyncDiff {
+  /** The registered commands after the sync, or before it for a dry run */
+  commands: APIApplicationCommand[];
+}
+
+// Assigned by Discord, or only present in responses
+const IGNORED_FIELDS = new Set([
+  'id',
+  'application_id',
+  'guild_id',
+  'version',
+  'name_localized',
+  'description_localized',
+  'default_permission',
+]);
+
+// Filled in by Discord when omitted, so they are only compared when a definition sets them
+const DEFAULTED_FIELDS = ['contexts', 'integration_types', 'dm_permission', 'handler'] as const;
+
+/**
+ * Compares command definitions against the registered commands, matching them by type and name
+ */
+export function diffCommands(
+  existing: APIApplicationCommand[],
+  definitions: RESTPostAPIApplicationCommandsJSONBody[],
+): CommandSyncDiff {
+  const registered = new Map(existing.map((command) => [commandKey(command), command]));
+  const diff: CommandSyncDiff = { added: [], changed: [], removed: [], unchanged: [] };
+
+  for (const definition of definitions) {
+    const key = commandKey(definition);
+    const command = registered.get(key);
+    registered.delete(key);
+
+    if (!command) {
+      diff.added.push(definition);
+    } else if (isCommandEqual(command, definition)) {
+      diff.unchanged.push(command);
+    } else {
+      diff.changed.push({ definition, existing: command });
+    }
+  }
+
+  diff.removed.push(...registered.values());
+  return diff;
+}
+
+/**
+ * Brings the registered commands in line with `definitions` using as few requests as possible.
+ * Unlike a bulk overwrite, commands that did not change keep their id, version and permissions.
+ */
+export async function syncCommands(
+  api: API,
+  definitions: RESTPostAPIApplicationCommandsJSONBody[],
+  { applicationId, guildId, dryRun = false, signal }: CommandSyncOptions = {},
+): Promise<CommandSyncReport> {
+  const commands = api.applicationCommands;
+  applicationId ??= (await api.oauth2.getCurrentBotApplicationInformation({ signal })).id;
+
+  const existing = guildId
+    ? await commands.getGuildCommands(applicationId, guildId, { with_localizations: true }, { signal })
+    : await commands.getGlobalCommands(applicationId, { with_localizations: true }, { signal });
+
+  const diff = diffCommands(existing, definitions);
+  if (dryRun) {
+    return { ...diff, commands: existing };
+  }
+
+  const synced = new Map(diff.unchanged.map((command) => [command.id, command]));
+
+  for (const command of diff.removed) {
+    if (guildId) {
+      await commands.deleteGuildCommand(applicationId, guildId, command.id, { signal });
+    } else {
+      await commands.deleteGlobalCommand(applicationId, command.id, { signal });
+    }
+  }
+
+  for (const { definition, existing: command } of diff.changed) {
+    const updated = guildId
+      ? await commands.editGuildCommand(
+        applicationId,
+        guildId,
+        command.id,
+        definition as RESTPatchAPIApplicationGuildCommandJSONBody,
+        { signal },
+      )
+      : await commands.editGlobalCommand(applicationId, command.id, definition, { signal });
+    synced.set(updated.id, updated);
+  }
+
+  for (const definition of diff.added) {
+    const created = guildId
+      ? await commands.createGuildCommand(
+        applicationId,
+        guildId,
+        definition as RESTPostAPIApplicationGuildCommandsJSONBody,
+        { signal },
+      )
+      : await commands.createGlobalCommand(applicationId, definition, { signal });
+    synced.set(created.id, created);
+  }
+
+  return { ...diff, commands: [...synced.values()] };
+}
+
+function commandKey(command: { type?: ApplicationCommandType; name: string }): string {
+  return `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+}
+
+function isCommandEqual(
+  command: APIApplicationCommand,
+  definition: RESTPostAPIApplicationCommandsJSONBody,
+): boolean {
+  const registered: Record<string, unknown> = { ...command };
+  const local: Record<string, unknown> = { type: ApplicationCommandType.ChatInput, ...definition };
+
+  for (const field of DEFAULTED_FIELDS) {
+    if (local[field] === undefined) {
+      delete registered[field];
+    }
+  }
+
+  return JSON.stringify(normalize(registered)) === JSON.stringify(normalize(local));
+}
+
+/**
+ * Strips ignored fields and empty values Discord treats as unset, and sorts object keys
+ * so equal commands serialize to the same string
+ */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    if (IGNORED_FIELDS.has(key)) {
+      continue;
+    }
+
+    const normalized = normalize((value as Record<string, unknown>)[key]);
+    if (!isUnset(normalized) || key === 'dm_permission') {
+      result[key] = normalized;
+    }
+  }
+
+  return result;
+}
+
+function isUnset(value: unknown): boolean {
+  return value === undefined
+    || value === null
+    || value === false
+    || value === ''
+    || (Array.isArray(value) && value.length === 0)
+    || (typeof value === 'object' && value !== null && Object.keys(value).length === 0);
+}
@@ -8,6 +8,10 @@ import type {
   RESTGetAPICurrentUserGuildsResult,
   RESTPostAPICurrentUserCreateDMChannelJSONBody,
   RESTPostAPICurrentUserCreateDMChannelResult,
+  RESTGetCurrentUserGuildMemberResult,
+  RESTGetAPICurrentUserApplicationRoleConnectionResult,
+  RESTPutAPICurrentUserApplicationRoleConnectionJSONBody,
+  RESTPutAPICurrentUserApplicationRoleConnectionResult,
   Snowflake,
 } from 'discord-api-types/v10';
 import type { REST, RequestData } from '../rest/index.js';
@@ -18,17 +22,19 @@ export class UsersAPI {
 
   public async get(
     userId: Snowflake,
-    { signal }: Pick<RequestData, 'signal'> = {},
+    { signal, cache }: Pick<RequestData, 'signal' | 'cache'> = {},
   ) {
     return this.rest.get(Routes.user(userId), {
       signal,
+      cache,
     }) as Promise<RESTGetAPIUserResult>;
   }
 
   public async getCurrent(
-    { signal }: Pick<RequestData, 'signal'> = {},
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
   ) {
     return this.rest.get(Routes.user('@me'), {
+      auth,
       signal,
     }) as Promise<RESTGetAPICurrentUserResult>;
   }
@@ -45,14 +51,47 @@ export class UsersAPI {
 
   public async getGuilds(
     query: RESTGetAPICurrentUserGuildsQuery = {},
-    { signal }: Pick<RequestData, 'signal'> = {},
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
   ) {
     return this.rest.get(Routes.userGuilds(), {
+      auth,
       query: makeURLSearchParams(query),
       signal,
     }) as Promise<RESTGetAPICurrentUserGuildsResult>;
   }
 
+  public async getGuildMember(
+    guildId: Snowflake,
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.userGuildMember(guildId), {
+      auth,
+      signal,
+    }) as Promise<RESTGetCurrentUserGuildMemberResult>;
+  }
+
+  public async getApplicationRoleConnection(
+    applicationId: Snowflake,
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+  ) {
+    return this.rest.get(Routes.userApplicationRoleConnection(applicationId), {
+      auth,
+      signal,
+    }) as Promise<RESTGetAPICurrentUserApplicationRoleConnectionResult>;
+  }
+
+  public async updateApplicationRoleConnection(
+    applicationId: Snowflake,
+    body: RESTPutAPICurrentUserApplicationRoleConnectionJSONBody,
+    { auth, signal }: Pick<RequestData, 'auth' | 'signal'> = {},
+  ) {
+    return this.rest.put(Routes.userApplicationRoleConnection(applicationId), {
+      auth,
+      body,
+      signal,
+    }) as Promise<RESTPutAPICurrentUserApplicationRoleConnectionResult>;
+  }
+
   public async createDM(
     body: RESTPostAPICurrentUserCreateDMChannelJSONBody,
     { signal }: Pick<RequestData, 'signal'> = {},
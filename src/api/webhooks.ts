@@ -34,7 +34,7 @@ export class WebhooksAPI {
     const query = makeURLSearchParams({ wait, thread_id });
     
     return this.rest.post(Routes.webhook(id, token), {
-      auth: false as any,
+      auth: false,
       query: query.toString() ? query : undefined,
       files,
       body,
@@ -50,7 +50,7 @@ export class WebhooksAPI {
     { signal }: Pick<RequestData, 'signal'> = {},
   ) {
     return this.rest.get(Routes.webhookMessage(id, token, messageId), {
-      auth: false as any,
+      auth: false,
       query: query ? makeURLSearchParams(query) : undefined,
       signal,
     }) as Promise<RESTGetAPIWebhookWithTokenMessageResult>;
@@ -64,7 +64,7 @@ export class WebhooksAPI {
     { signal }: Pick<RequestData, 'signal'> = {},
   ) {
     return this.rest.patch(Routes.webhookMessage(id, token, messageId), {
-      auth: false as any,
+      auth: false,
       files,
       body,
       signal,
@@ -79,7 +79,7 @@ export class WebhooksAPI {
     { signal }: Pick<RequestData, 'signal'> = {},
   ) {
     return this.rest.delete(Routes.webhookMessage(id, token, messageId), {
-      auth: false as any,
+      auth: false,
       query: query ? makeURLSearchParams(query) : undefined,
       signal,
     }) as Promise<RESTDeleteAPIWebhookWithTokenMessageResult>;
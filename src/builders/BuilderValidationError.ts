@@ -0,0 +1,17 @@
+/**
+ * Thrown by `toJSON` of a builder when the built object would be rejected by Discord
+ */
+export class BuilderValidationError extends Error {
+  public readonly name = 'BuilderValidationError';
+
+  /**
+   * @param field - The field that is invalid, e.g. `option "user" description`
+   * @param reason - Why the value is invalid
+   */
+  public constructor(
+    public readonly field: string,
+    public readonly reason: string,
+  ) {
+    super(`Invalid ${field}: ${reason}`);
+  }
+}
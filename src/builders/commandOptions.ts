@@ -0,0 +1,315 @@
+import { ApplicationCommandOptionType } from 'discord-api-types/v10';
+import type {
+  APIApplicationCommandAttachmentOption,
+  APIApplicationCommandBasicOption,
+  APIApplicationCommandBooleanOption,
+  APIApplicationCommandChannelOption,
+  APIApplicationCommandIntegerOption,
+  APIApplicationCommandMentionableOption,
+  APIApplicationCommandNumberOption,
+  APIApplicationCommandOptionChoice,
+  APIApplicationCommandRoleOption,
+  APIApplicationCommandStringOption,
+  APIApplicationCommandUserOption,
+  Locale,
+  LocalizationMap,
+} from 'discord-api-types/v10';
+import { BuilderValidationError } from './BuilderValidationError.js';
+import {
+  validateChatInputName,
+  validateCount,
+  validateDescription,
+  validateLength,
+  validateLocalizations,
+  validateOrder,
+  validateRange,
+} from './validation.js';
+
+type ChannelOptionType = NonNullable<APIApplicationCommandChannelOption['channel_types']>[number];
+
+interface NameAndDescriptionData {
+  name?: string;
+  name_localizations?: LocalizationMap | null;
+  description?: string;
+  description_localizations?: LocalizationMap | null;
+}
+
+/**
+ * Base of the chat input command builders, which all have a localized name and description
+ */
+export abstract class NameAndDescriptionBuilder {
+  protected abstract readonly data: NameAndDescriptionData;
+
+  /** Used in validation errors to point at the invalid part of a command */
+  protected abstract readonly kind: string;
+
+  public setName(name: string): this {
+    this.data.name = name;
+    return this;
+  }
+
+  /**
+   * @param name - The name in `locale`, or `null` to remove it
+   */
+  public setNameLocalization(locale: Locale, name: string | null): this {
+    this.data.name_localizations = { ...this.data.name_localizations, [locale]: name };
+    return this;
+  }
+
+  public setNameLocalizations(localizations: LocalizationMap | null): this {
+    this.data.name_localizations = localizations === null ? null : { ...localizations };
+    return this;
+  }
+
+  public setDescription(description: string): this {
+    this.data.description = description;
+    return this;
+  }
+
+  /**
+   * @param description - The description in `locale`, or `null` to remove it
+   */
+  public setDescriptionLocalization(locale: Locale, description: string | null): this {
+    this.data.description_localizations = { ...this.data.description_localizations, [locale]: description };
+    return this;
+  }
+
+  public setDescriptionLocalizations(localizations: LocalizationMap | null): this {
+    this.data.description_localizations = localizations === null ? null : { ...localizations };
+    return this;
+  }
+
+  protected get label(): string {
+    return `${this.kind} "${this.data.name ?? ''}"`;
+  }
+
+  protected validateNameAndDescription(): void {
+    validateChatInputName(`${this.kind} name`, this.data.name);
+    validateLocalizations(`${this.label} name`, this.data.name_localizations, validateChatInputName);
+    validateDescription(`${this.label} description`, this.data.description);
+    validateLocalizations(`${this.label} description`, this.data.description_localizations, validateDescription);
+  }
+}
+
+interface OptionData extends NameAndDescriptionData {
+  type: ApplicationCommandOptionType;
+  required?: boolean;
+  autocomplete?: boolean;
+  choices?: APIApplicationCommandOptionChoice[];
+  min_value?: number;
+  max_value?: number;
+  min_length?: number;
+  max_length?: number;
+  channel_types?: ChannelOptionType[];
+}
+
+/**
+ * Base of the builders for options that hold a value, as opposed to subcommands
+ */
+export abstract class ApplicationCommandOptionBuilder<
+  Data extends APIApplicationCommandBasicOption = APIApplicationCommandBasicOption,
+> extends NameAndDescriptionBuilder {
+  protected readonly data: OptionData;
+  protected readonly kind = 'option';
+
+  protected constructor(type: Data['type'], data: Partial<Data> = {}) {
+    super();
+    this.data = { ...data, type } as OptionData;
+  }
+
+  public get name(): string | undefined {
+    return this.data.name;
+  }
+
+  public get required(): boolean {
+    return this.data.required ?? false;
+  }
+
+  /**
+   * Marks the option as required. Required options have to come before optional ones.
+   */
+  public setRequired(required = true): this {
+    this.data.required = required;
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the option exceeds one of Discord's limits
+   */
+  public toJSON(): Data {
+    this.validateNameAndDescription();
+    this.validate();
+    return structuredClone(this.data) as Data;
+  }
+
+  protected validate(): void {}
+}
+
+/**
+ * Adds choices and autocomplete to string, integer and number options
+ */
+abstract class ChoicesOptionBuilder<
+  Data extends APIApplicationCommandStringOption | APIApplicationCommandIntegerOption | APIApplicationCommandNumberOption,
+  Value extends string | number,
+> extends ApplicationCommandOptionBuilder<Data> {
+  public addChoices(...choices: APIApplicationCommandOptionChoice<Value>[]): this {
+    this.data.choices = [...this.data.choices ?? [], ...choices];
+    return this;
+  }
+
+  public setChoices(...choices: APIApplicationCommandOptionChoice<Value>[]): this {
+    this.data.choices = [...choices];
+    return this;
+  }
+
+  /**
+   * Lets users pick from suggestions sent in response to autocomplete interactions
+   * instead of fixed choices
+   */
+  public setAutocomplete(autocomplete = true): this {
+    this.data.autocomplete = autocomplete;
+    return this;
+  }
+
+  protected validate(): void {
+    const { choices, autocomplete } = this.data;
+    if (autocomplete && choices?.length) {
+      throw new BuilderValidationError(`${this.label} choices`, 'cannot be combined with autocomplete');
+    }
+
+    validateCount(`${this.label} choices`, choices, 0, 25);
+    for (const choice of choices ?? []) {
+      validateLength(`${this.label} choice name`, choice.name, 1, 100);
+      validateLocalizations(`${this.label} choice name`, choice.name_localizations, (field, name) => validateLength(field, name, 1, 100));
+      this.validateChoiceValue(choice.value as Value);
+    }
+  }
+
+  protected abstract validateChoiceValue(value: Value): void;
+}
+
+abstract class NumericOptionBuilder<
+  Data extends APIApplicationCommandIntegerOption | APIApplicationCommandNumberOption,
+> extends ChoicesOptionBuilder<Data, number> {
+  public setMinValue(min: number): this {
+    this.data.min_value = min;
+    return this;
+  }
+
+  public setMaxValue(max: number): this {
+    this.data.max_value = max;
+    return this;
+  }
+
+  protected validate(): void {
+    super.validate();
+    this.validateChoiceValue(this.data.min_value, 'min_value');
+    this.validateChoiceValue(this.data.max_value, 'max_value');
+    validateOrder(`${this.label} min_value`, this.data.min_value, 'max_value', this.data.max_value);
+  }
+
+  protected validateChoiceValue(value: number | undefined, field = 'choice value'): void {
+    if (value !== undefined && !this.isValidValue(value)) {
+      throw new BuilderValidationError(`${this.label} ${field}`, `${value} is not a valid ${this.valueKind}`);
+    }
+  }
+
+  protected abstract readonly valueKind: string;
+
+  protected abstract isValidValue(value: number): boolean;
+}
+
+export class SlashCommandStringOption extends ChoicesOptionBuilder<APIApplicationCommandStringOption, string> {
+  public constructor(data: Partial<APIApplicationCommandStringOption> = {}) {
+    super(ApplicationCommandOptionType.String, data);
+  }
+
+  public setMinLength(min: number): this {
+    this.data.min_length = min;
+    return this;
+  }
+
+  public setMaxLength(max: number): this {
+    this.data.max_length = max;
+    return this;
+  }
+
+  protected validate(): void {
+    super.validate();
+    validateRange(`${this.label} min_length`, this.data.min_length, 0, 6000);
+    validateRange(`${this.label} max_length`, this.data.max_length, 1, 6000);
+    validateOrder(`${this.label} min_length`, this.data.min_length, 'max_length', this.data.max_length);
+  }
+
+  protected validateChoiceValue(value: string): void {
+    validateLength(`${this.label} choice value`, value, 1, 100);
+  }
+}
+
+export class SlashCommandIntegerOption extends NumericOptionBuilder<APIApplicationCommandIntegerOption> {
+  protected readonly valueKind = 'integer';
+
+  public constructor(data: Partial<APIApplicationCommandIntegerOption> = {}) {
+    super(ApplicationCommandOptionType.Integer, data);
+  }
+
+  protected isValidValue(value: number): boolean {
+    return Number.isSafeInteger(value);
+  }
+}
+
+export class SlashCommandNumberOption extends NumericOptionBuilder<APIApplicationCommandNumberOption> {
+  protected readonly valueKind = 'number';
+
+  public constructor(data: Partial<APIApplicationCommandNumberOption> = {}) {
+    super(ApplicationCommandOptionType.Number, data);
+  }
+
+  protected isValidValue(value: number): boolean {
+    return Number.isFinite(value);
+  }
+}
+
+export class SlashCommandChannelOption extends ApplicationCommandOptionBuilder<APIApplicationCommandChannelOption> {
+  public constructor(data: Partial<APIApplicationCommandChannelOption> = {}) {
+    super(ApplicationCommandOptionType.Channel, data);
+  }
+
+  /**
+   * Restricts the channels that can be picked to these types
+   */
+  public addChannelTypes(...types: ChannelOptionType[]): this {
+    this.data.channel_types = [...this.data.channel_types ?? [], ...types];
+    return this;
+  }
+}
+
+export class SlashCommandBooleanOption extends ApplicationCommandOptionBuilder<APIApplicationCommandBooleanOption> {
+  public constructor(data: Partial<APIApplicationCommandBooleanOption> = {}) {
+    super(ApplicationCommandOptionType.Boolean, data);
+  }
+}
+
+export class SlashCommandUserOption extends ApplicationCommandOptionBuilder<APIApplicationCommandUserOption> {
+  public constructor(data: Partial<APIApplicationCommandUserOption> = {}) {
+    super(ApplicationCommandOptionType.User, data);
+  }
+}
+
+export class SlashCommandRoleOption extends ApplicationCommandOptionBuilder<APIApplicationCommandRoleOption> {
+  public constructor(data: Partial<APIApplicationCommandRoleOption> = {}) {
+    super(ApplicationCommandOptionType.Role, data);
+  }
+}
+
+export class SlashCommandMentionableOption extends ApplicationCommandOptionBuilder<APIApplicationCommandMentionableOption> {
+  public constructor(data: Partial<APIApplicationCommandMentionableOption> = {}) {
+    super(ApplicationCommandOptionType.Mentionable, data);
+  }
+}
+
+export class SlashCommandAttachmentOption extends ApplicationCommandOptionBuilder<APIApplicationCommandAttachmentOption> {
+  public constructor(data: Partial<APIApplicationCommandAttachmentOption> = {}) {
+    super(ApplicationCommandOptionType.Attachment, data);
+  }
+}
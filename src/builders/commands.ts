@@ -0,0 +1,363 @@
+import { ApplicationCommandOptionType, ApplicationCommandType } from 'discord-api-types/v10';
+import type {
+  APIApplicationCommandBasicOption,
+  APIApplicationCommandOption,
+  APIApplicationCommandSubcommandGroupOption,
+  APIApplicationCommandSubcommandOption,
+  ApplicationIntegrationType,
+  InteractionContextType,
+  Locale,
+  LocalizationMap,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  RESTPostAPIContextMenuApplicationCommandsJSONBody,
+} from 'discord-api-types/v10';
+import { BuilderValidationError } from './BuilderValidationError.js';
+import {
+  ApplicationCommandOptionBuilder,
+  NameAndDescriptionBuilder,
+  SlashCommandAttachmentOption,
+  SlashCommandBooleanOption,
+  SlashCommandChannelOption,
+  SlashCommandIntegerOption,
+  SlashCommandMentionableOption,
+  SlashCommandNumberOption,
+  SlashCommandRoleOption,
+  SlashCommandStringOption,
+  SlashCommandUserOption,
+} from './commandOptions.js';
+import { validateCount, validateLength, validateLocalizations } from './validation.js';
+
+/**
+ * A builder, or a function that configures a new one
+ */
+export type BuilderInput<Builder> = Builder | ((builder: Builder) => Builder);
+
+function resolveBuilder<Builder>(input: BuilderInput<Builder>, create: () => Builder): Builder {
+  return typeof input === 'function' ? (input as (builder: Builder) => Builder)(create()) : input;
+}
+
+/** Permissions as a bit set, e.g. `PermissionFlagsBits.BanMembers` */
+export type PermissionsInput = bigint | number | string;
+
+/**
+ * Base of the builders that take value options: commands without subcommands, and subcommands
+ */
+abstract class SharedSlashCommandOptions extends NameAndDescriptionBuilder {
+  protected abstract readonly data: {
+    name?: string;
+    options?: (ApplicationCommandOptionBuilder | SlashCommandSubcommandBuilder | SlashCommandSubcommandGroupBuilder)[];
+  };
+
+  public addStringOption(input: BuilderInput<SlashCommandStringOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandStringOption()));
+  }
+
+  public addIntegerOption(input: BuilderInput<SlashCommandIntegerOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandIntegerOption()));
+  }
+
+  public addNumberOption(input: BuilderInput<SlashCommandNumberOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandNumberOption()));
+  }
+
+  public addBooleanOption(input: BuilderInput<SlashCommandBooleanOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandBooleanOption()));
+  }
+
+  public addUserOption(input: BuilderInput<SlashCommandUserOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandUserOption()));
+  }
+
+  public addChannelOption(input: BuilderInput<SlashCommandChannelOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandChannelOption()));
+  }
+
+  public addRoleOption(input: BuilderInput<SlashCommandRoleOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandRoleOption()));
+  }
+
+  public addMentionableOption(input: BuilderInput<SlashCommandMentionableOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandMentionableOption()));
+  }
+
+  public addAttachmentOption(input: BuilderInput<SlashCommandAttachmentOption>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandAttachmentOption()));
+  }
+
+  protected addOption(option: ApplicationCommandOptionBuilder | SlashCommandSubcommandBuilder | SlashCommandSubcommandGroupBuilder): this {
+    this.data.options = [...this.data.options ?? [], option];
+    return this;
+  }
+
+  protected buildOptions(): APIApplicationCommandOption[] | undefined {
+    const { options } = this.data;
+    if (!options) {
+      return undefined;
+    }
+
+    validateCount(`${this.label} options`, options, 0, 25);
+    const built = options.map((option) => option.toJSON());
+
+    const subcommands = built.filter((option) => isSubcommand(option));
+    if (subcommands.length && subcommands.length !== built.length) {
+      throw new BuilderValidationError(`${this.label} options`, 'subcommands cannot be mixed with other options');
+    }
+
+    const names = new Set<string>();
+    let optional = false;
+    for (const option of built) {
+      if (names.has(option.name)) {
+        throw new BuilderValidationError(`${this.label} options`, `"${option.name}" is used more than once`);
+      }
+      names.add(option.name);
+
+      if (!isSubcommand(option) && option.required && optional) {
+        throw new BuilderValidationError(`${this.label} options`, `required option "${option.name}" must come before the optional ones`);
+      }
+      optional ||= !isSubcommand(option) && !option.required;
+    }
+
+    return built;
+  }
+}
+
+function isSubcommand(option: APIApplicationCommandOption): option is APIApplicationCommandSubcommandOption | APIApplicationCommandSubcommandGroupOption {
+  return option.type === ApplicationCommandOptionType.Subcommand || option.type === ApplicationCommandOptionType.SubcommandGroup;
+}
+
+/**
+ * Builds a chat input (slash) command for `ApplicationCommandsAPI` and `syncCommands`
+ *
+ * @example
+ * ```ts
+ * const ban = new SlashCommandBuilder()
+ *   .setName('ban')
+ *   .setDescription('Bans a user')
+ *   .setDefaultMemberPermissions(PermissionFlagsBits.BanMembers)
+ *   .addUserOption((option) => option.setName('user').setDescription('User to ban').setRequired())
+ *   .addStringOption((option) => option.setName('reason').setDescription('Reason for the ban').setMaxLength(512))
+ *   .toJSON();
+ * ```
+ */
+export class SlashCommandBuilder extends SharedSlashCommandOptions {
+  protected readonly data: Omit<Partial<RESTPostAPIChatInputApplicationCommandsJSONBody>, 'options'> & {
+    options?: (ApplicationCommandOptionBuilder | SlashCommandSubcommandBuilder | SlashCommandSubcommandGroupBuilder)[];
+  };
+
+  protected readonly kind = 'command';
+
+  public constructor(data: Omit<Partial<RESTPostAPIChatInputApplicationCommandsJSONBody>, 'options'> = {}) {
+    super();
+    this.data = { ...data };
+  }
+
+  public addSubcommand(input: BuilderInput<SlashCommandSubcommandBuilder>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandSubcommandBuilder()));
+  }
+
+  public addSubcommandGroup(input: BuilderInput<SlashCommandSubcommandGroupBuilder>): this {
+    return this.addOption(resolveBuilder(input, () => new SlashCommandSubcommandGroupBuilder()));
+  }
+
+  /**
+   * Hides the command from members without these permissions until an admin overrides it,
+   * `0` hides it from everyone but admins and `null` resets it
+   */
+  public setDefaultMemberPermissions(permissions: PermissionsInput | null): this {
+    this.data.default_member_permissions = permissions === null ? null : String(permissions);
+    return this;
+  }
+
+  /**
+   * Where the command can be used: guilds, DMs with the bot, or other private channels
+   */
+  public setContexts(...contexts: InteractionContextType[]): this {
+    this.data.contexts = contexts;
+    return this;
+  }
+
+  /**
+   * How the command can be installed: to guilds, to users, or both
+   */
+  public setIntegrationTypes(...integrationTypes: ApplicationIntegrationType[]): this {
+    this.data.integration_types = integrationTypes;
+    return this;
+  }
+
+  public setNSFW(nsfw = true): this {
+    this.data.nsfw = nsfw;
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the command exceeds one of Discord's limits
+   */
+  public toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody {
+    this.validateNameAndDescription();
+
+    const command = {
+      ...structuredClone({ ...this.data, options: undefined }),
+      type: ApplicationCommandType.ChatInput,
+      options: this.buildOptions(),
+    } as RESTPostAPIChatInputApplicationCommandsJSONBody;
+    if (!command.options) {
+      delete command.options;
+    }
+
+    const length = countCharacters(command);
+    if (length > 4000) {
+      throw new BuilderValidationError(`${this.label}`, `names, descriptions and choices add up to ${length} characters, more than the limit of 4000`);
+    }
+
+    return command;
+  }
+}
+
+export class SlashCommandSubcommandGroupBuilder extends NameAndDescriptionBuilder {
+  protected readonly data: Omit<Partial<APIApplicationCommandSubcommandGroupOption>, 'options'> & {
+    options?: SlashCommandSubcommandBuilder[];
+  };
+
+  protected readonly kind = 'subcommand group';
+
+  public constructor(data: Omit<Partial<APIApplicationCommandSubcommandGroupOption>, 'options'> = {}) {
+    super();
+    this.data = { ...data, type: ApplicationCommandOptionType.SubcommandGroup };
+  }
+
+  public addSubcommand(input: BuilderInput<SlashCommandSubcommandBuilder>): this {
+    this.data.options = [...this.data.options ?? [], resolveBuilder(input, () => new SlashCommandSubcommandBuilder())];
+    return this;
+  }
+
+  public toJSON(): APIApplicationCommandSubcommandGroupOption {
+    this.validateNameAndDescription();
+    validateCount(`${this.label} subcommands`, this.data.options, 1, 25);
+
+    return {
+      ...structuredClone({ ...this.data, options: undefined }),
+      options: this.data.options!.map((subcommand) => subcommand.toJSON()),
+    } as APIApplicationCommandSubcommandGroupOption;
+  }
+}
+
+export class SlashCommandSubcommandBuilder extends SharedSlashCommandOptions {
+  protected readonly data: Omit<Partial<APIApplicationCommandSubcommandOption>, 'options'> & {
+    options?: ApplicationCommandOptionBuilder[];
+  };
+
+  protected readonly kind = 'subcommand';
+
+  public constructor(data: Omit<Partial<APIApplicationCommandSubcommandOption>, 'options'> = {}) {
+    super();
+    this.data = { ...data, type: ApplicationCommandOptionType.Subcommand };
+  }
+
+  public toJSON(): APIApplicationCommandSubcommandOption {
+    this.validateNameAndDescription();
+
+    const subcommand = {
+      ...structuredClone({ ...this.data, options: undefined }),
+      options: this.buildOptions() as APIApplicationCommandBasicOption[] | undefined,
+    } as APIApplicationCommandSubcommandOption;
+    if (!subcommand.options) {
+      delete subcommand.options;
+    }
+
+    return subcommand;
+  }
+}
+
+/**
+ * Builds a user or message context menu command, shown under "Apps" when right clicking
+ */
+export class ContextMenuCommandBuilder {
+  protected readonly data: Partial<RESTPostAPIContextMenuApplicationCommandsJSONBody>;
+
+  public constructor(data: Partial<RESTPostAPIContextMenuApplicationCommandsJSONBody> = {}) {
+    this.data = { ...data };
+  }
+
+  /**
+   * Context menu names may contain spaces and uppercase letters, unlike chat input commands
+   */
+  public setName(name: string): this {
+    this.data.name = name;
+    return this;
+  }
+
+  public setNameLocalization(locale: Locale, name: string | null): this {
+    this.data.name_localizations = { ...this.data.name_localizations, [locale]: name };
+    return this;
+  }
+
+  public setNameLocalizations(localizations: LocalizationMap | null): this {
+    this.data.name_localizations = localizations === null ? null : { ...localizations };
+    return this;
+  }
+
+  public setType(type: ApplicationCommandType.User | ApplicationCommandType.Message): this {
+    this.data.type = type;
+    return this;
+  }
+
+  public setDefaultMemberPermissions(permissions: PermissionsInput | null): this {
+    this.data.default_member_permissions = permissions === null ? null : String(permissions);
+    return this;
+  }
+
+  public setContexts(...contexts: InteractionContextType[]): this {
+    this.data.contexts = contexts;
+    return this;
+  }
+
+  public setIntegrationTypes(...integrationTypes: ApplicationIntegrationType[]): this {
+    this.data.integration_types = integrationTypes;
+    return this;
+  }
+
+  public setNSFW(nsfw = true): this {
+    this.data.nsfw = nsfw;
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the command exceeds one of Discord's limits
+   */
+  public toJSON(): RESTPostAPIContextMenuApplicationCommandsJSONBody {
+    validateLength('context menu command name', this.data.name, 1, 32);
+    validateLocalizations(`context menu command "${this.data.name}" name`, this.data.name_localizations, (field, name) => validateLength(field, name, 1, 32));
+    if (this.data.type !== ApplicationCommandType.User && this.data.type !== ApplicationCommandType.Message) {
+      throw new BuilderValidationError(`context menu command "${this.data.name}" type`, 'must be User or Message');
+    }
+
+    return structuredClone(this.data) as RESTPostAPIContextMenuApplicationCommandsJSONBody;
+  }
+}
+
+// Discord limits the characters of a command's names, descriptions and choices combined,
+// counting the longest localization of each
+function countCharacters(entry: {
+  name: string;
+  name_localizations?: LocalizationMap | null;
+  description?: string;
+  description_localizations?: LocalizationMap | null;
+  value?: unknown;
+  options?: object[];
+  choices?: object[];
+}): number {
+  let count = longest(entry.name, entry.name_localizations) + longest(entry.description, entry.description_localizations);
+  if (typeof entry.value === 'string') {
+    count += entry.value.length;
+  }
+
+  for (const child of [...entry.options ?? [], ...entry.choices ?? []]) {
+    count += countCharacters(child as Parameters<typeof countCharacters>[0]);
+  }
+
+  return count;
+}
+
+function longest(value = '', localizations?: LocalizationMap | null): number {
+  return Math.max(value.length, ...Object.values(localizations ?? {}).map((localized) => localized?.length ?? 0));
+}
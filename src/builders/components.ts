@@ -0,0 +1,397 @@
+import { ButtonStyle, ComponentType, SelectMenuDefaultValueType } from 'discord-api-types/v10';
+import type {
+  APIActionRowComponent,
+  APIButtonComponent,
+  APIChannelSelectComponent,
+  APIComponentInActionRow,
+  APIComponentInMessageActionRow,
+  APIMentionableSelectComponent,
+  APIMessageComponentEmoji,
+  APIRoleSelectComponent,
+  APISelectMenuOption,
+  APIStringSelectComponent,
+  APIUserSelectComponent,
+  ChannelType,
+  Snowflake,
+} from 'discord-api-types/v10';
+import { BuilderValidationError } from './BuilderValidationError.js';
+import {
+  resolveJSON,
+  validateCount,
+  validateCustomId,
+  validateLength,
+  validateOrder,
+  validateRange,
+  type JSONEncodable,
+} from './validation.js';
+
+/**
+ * Builds a row of up to 5 buttons, a single select menu, or a single text input in modals
+ *
+ * @example
+ * ```ts
+ * const row = new ActionRowBuilder()
+ *   .addComponents(
+ *     new ButtonBuilder().setCustomId('confirm').setLabel('Confirm').setStyle(ButtonStyle.Success),
+ *     new ButtonBuilder().setURL('https://discord.com').setLabel('Docs'),
+ *   )
+ *   .toJSON();
+ *
+ * await api.channels.createMessage(channelId, { content: 'Are you sure?', components: [row] });
+ * ```
+ */
+export class ActionRowBuilder<Component extends APIComponentInActionRow = APIComponentInMessageActionRow> {
+  private components: (Component | JSONEncodable<Component>)[];
+
+  public constructor(components: (Component | JSONEncodable<Component>)[] = []) {
+    this.components = [...components];
+  }
+
+  public addComponents(...components: (Component | JSONEncodable<Component>)[]): this {
+    this.components.push(...components);
+    return this;
+  }
+
+  public setComponents(...components: (Component | JSONEncodable<Component>)[]): this {
+    this.components = [...components];
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the row or one of its components exceeds Discord's limits
+   */
+  public toJSON(): APIActionRowComponent<Component> {
+    const components = this.components.map((component) => resolveJSON(component));
+
+    validateCount('action row components', components, 1, 5);
+    if (components.length > 1 && components.some((component) => component.type !== ComponentType.Button)) {
+      throw new BuilderValidationError('action row components', 'select menus and text inputs need a row of their own');
+    }
+
+    return { type: ComponentType.ActionRow, components };
+  }
+}
+
+type ButtonData = {
+  style?: ButtonStyle;
+  label?: string;
+  emoji?: APIMessageComponentEmoji;
+  custom_id?: string;
+  url?: string;
+  sku_id?: Snowflake;
+  disabled?: boolean;
+};
+
+/**
+ * Builds a button. Buttons with a custom id send a component interaction when clicked,
+ * link buttons open their URL and premium buttons open the store page of a SKU.
+ */
+export class ButtonBuilder {
+  private readonly data: ButtonData;
+
+  public constructor(data: Partial<APIButtonComponent> = {}) {
+    this.data = { ...data };
+  }
+
+  public setStyle(style: ButtonStyle): this {
+    this.data.style = style;
+    return this;
+  }
+
+  public setLabel(label: string): this {
+    this.data.label = label;
+    return this;
+  }
+
+  /**
+   * @param emoji - A unicode emoji, or a custom emoji by id
+   */
+  public setEmoji(emoji: string | APIMessageComponentEmoji): this {
+    this.data.emoji = typeof emoji === 'string' ? { name: emoji } : { ...emoji };
+    return this;
+  }
+
+  public setCustomId(customId: string): this {
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  /**
+   * Makes this a link button, setting the style to `ButtonStyle.Link`
+   */
+  public setURL(url: string): this {
+    this.data.url = url;
+    this.data.style = ButtonStyle.Link;
+    return this;
+  }
+
+  /**
+   * Makes this a premium button, setting the style to `ButtonStyle.Premium`
+   */
+  public setSKUId(skuId: Snowflake): this {
+    this.data.sku_id = skuId;
+    this.data.style = ButtonStyle.Premium;
+    return this;
+  }
+
+  public setDisabled(disabled = true): this {
+    this.data.disabled = disabled;
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the button exceeds Discord's limits or mixes fields of different styles
+   */
+  public toJSON(): APIButtonComponent {
+    const { style, label, emoji, custom_id, url, sku_id } = this.data;
+    if (style === undefined) {
+      throw new BuilderValidationError('button style', 'is required');
+    }
+
+    if (style === ButtonStyle.Premium) {
+      if (!sku_id || custom_id !== undefined || url !== undefined || label !== undefined || emoji !== undefined) {
+        throw new BuilderValidationError('premium button', 'must have a SKU id and no custom id, URL, label or emoji');
+      }
+    } else {
+      validateLength('button label', label, 0, 80);
+      if (!label && !emoji) {
+        throw new BuilderValidationError('button', 'must have a label or an emoji');
+      }
+
+      if (style === ButtonStyle.Link) {
+        if (!url || custom_id !== undefined) {
+          throw new BuilderValidationError('link button', 'must have a URL and no custom id');
+        }
+        validateLength('link button URL', url, 1, 512);
+      } else {
+        validateCustomId('button custom id', custom_id);
+        if (url !== undefined) {
+          throw new BuilderValidationError(`button "${custom_id}"`, 'only link buttons can have a URL');
+        }
+      }
+
+      if (sku_id !== undefined) {
+        throw new BuilderValidationError('button', 'only premium buttons can have a SKU id');
+      }
+    }
+
+    return { type: ComponentType.Button, ...structuredClone(this.data) } as APIButtonComponent;
+  }
+}
+
+type SelectMenuComponent =
+  | APIStringSelectComponent
+  | APIUserSelectComponent
+  | APIRoleSelectComponent
+  | APIMentionableSelectComponent
+  | APIChannelSelectComponent;
+
+/**
+ * Base of the select menu builders
+ */
+export abstract class BaseSelectMenuBuilder<Component extends SelectMenuComponent> {
+  protected readonly data: Partial<Component>;
+
+  protected constructor(type: Component['type'], data: Partial<Component> = {}) {
+    this.data = { ...data, type } as Partial<Component>;
+  }
+
+  public setCustomId(customId: string): this {
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  public setPlaceholder(placeholder: string): this {
+    this.data.placeholder = placeholder;
+    return this;
+  }
+
+  /**
+   * The fewest values that have to be picked, `0` makes the menu optional
+   */
+  public setMinValues(minValues: number): this {
+    this.data.min_values = minValues;
+    return this;
+  }
+
+  public setMaxValues(maxValues: number): this {
+    this.data.max_values = maxValues;
+    return this;
+  }
+
+  public setDisabled(disabled = true): this {
+    this.data.disabled = disabled;
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the select menu exceeds Discord's limits
+   */
+  public toJSON(): Component {
+    validateCustomId('select menu custom id', this.data.custom_id);
+
+    const label = `select menu "${this.data.custom_id}"`;
+    validateLength(`${label} placeholder`, this.data.placeholder, 0, 150);
+    validateRange(`${label} min_values`, this.data.min_values, 0, 25);
+    validateRange(`${label} max_values`, this.data.max_values, 1, 25);
+    validateOrder(`${label} min_values`, this.data.min_values, 'max_values', this.data.max_values);
+    this.validate(label);
+
+    return structuredClone(this.data) as Component;
+  }
+
+  protected validate(_label: string): void {}
+}
+
+/**
+ * Builds a select menu with options of its own
+ */
+export class StringSelectMenuBuilder extends BaseSelectMenuBuilder<APIStringSelectComponent> {
+  public constructor(data: Partial<APIStringSelectComponent> = {}) {
+    super(ComponentType.StringSelect, data);
+  }
+
+  public addOptions(...options: (APISelectMenuOption | JSONEncodable<APISelectMenuOption>)[]): this {
+    this.data.options = [...this.data.options ?? [], ...options.map((option) => resolveJSON(option))];
+    return this;
+  }
+
+  public setOptions(...options: (APISelectMenuOption | JSONEncodable<APISelectMenuOption>)[]): this {
+    this.data.options = options.map((option) => resolveJSON(option));
+    return this;
+  }
+
+  protected validate(label: string): void {
+    const { options = [], min_values, max_values = 1 } = this.data;
+    validateCount(`${label} options`, options, 1, 25);
+
+    for (const option of options) {
+      validateSelectMenuOption(label, option);
+    }
+
+    if ((min_values ?? 1) > options.length || (this.data.max_values ?? 1) > options.length) {
+      throw new BuilderValidationError(`${label} values`, `cannot pick more than the ${options.length} options`);
+    }
+    if (options.filter((option) => option.default).length > max_values) {
+      throw new BuilderValidationError(`${label} options`, `cannot have more than max_values (${max_values}) defaults`);
+    }
+  }
+}
+
+/**
+ * Builds an option of a `StringSelectMenuBuilder`
+ */
+export class StringSelectMenuOptionBuilder {
+  private readonly data: Partial<APISelectMenuOption>;
+
+  public constructor(data: Partial<APISelectMenuOption> = {}) {
+    this.data = { ...data };
+  }
+
+  public setLabel(label: string): this {
+    this.data.label = label;
+    return this;
+  }
+
+  public setValue(value: string): this {
+    this.data.value = value;
+    return this;
+  }
+
+  public setDescription(description: string): this {
+    this.data.description = description;
+    return this;
+  }
+
+  public setEmoji(emoji: string | APIMessageComponentEmoji): this {
+    this.data.emoji = typeof emoji === 'string' ? { name: emoji } : { ...emoji };
+    return this;
+  }
+
+  public setDefault(isDefault = true): this {
+    this.data.default = isDefault;
+    return this;
+  }
+
+  public toJSON(): APISelectMenuOption {
+    validateSelectMenuOption('select menu', this.data);
+    return structuredClone(this.data) as APISelectMenuOption;
+  }
+}
+
+function validateSelectMenuOption(label: string, option: Partial<APISelectMenuOption>): void {
+  validateLength(`${label} option label`, option.label, 1, 100);
+  validateLength(`${label} option "${option.label}" value`, option.value, 1, 100);
+  validateLength(`${label} option "${option.label}" description`, option.description, 0, 100);
+}
+
+/**
+ * Base of the select menus Discord fills with users, roles, mentionables or channels
+ */
+abstract class AutoPopulatedSelectMenuBuilder<
+  Component extends APIUserSelectComponent | APIRoleSelectComponent | APIMentionableSelectComponent | APIChannelSelectComponent,
+> extends BaseSelectMenuBuilder<Component> {
+  protected addDefaultValues(values: NonNullable<Component['default_values']>): this {
+    this.data.default_values = [...this.data.default_values ?? [], ...values] as Component['default_values'];
+    return this;
+  }
+
+  protected validate(label: string): void {
+    const { default_values, min_values, max_values = 1 } = this.data;
+    if (default_values?.length) {
+      validateCount(`${label} default values`, default_values, min_values ?? 1, max_values);
+    }
+  }
+}
+
+export class UserSelectMenuBuilder extends AutoPopulatedSelectMenuBuilder<APIUserSelectComponent> {
+  public constructor(data: Partial<APIUserSelectComponent> = {}) {
+    super(ComponentType.UserSelect, data);
+  }
+
+  public addDefaultUsers(...userIds: Snowflake[]): this {
+    return this.addDefaultValues(userIds.map((id) => ({ type: SelectMenuDefaultValueType.User, id })));
+  }
+}
+
+export class RoleSelectMenuBuilder extends AutoPopulatedSelectMenuBuilder<APIRoleSelectComponent> {
+  public constructor(data: Partial<APIRoleSelectComponent> = {}) {
+    super(ComponentType.RoleSelect, data);
+  }
+
+  public addDefaultRoles(...roleIds: Snowflake[]): this {
+    return this.addDefaultValues(roleIds.map((id) => ({ type: SelectMenuDefaultValueType.Role, id })));
+  }
+}
+
+export class MentionableSelectMenuBuilder extends AutoPopulatedSelectMenuBuilder<APIMentionableSelectComponent> {
+  public constructor(data: Partial<APIMentionableSelectComponent> = {}) {
+    super(ComponentType.MentionableSelect, data);
+  }
+
+  public addDefaultUsers(...userIds: Snowflake[]): this {
+    return this.addDefaultValues(userIds.map((id) => ({ type: SelectMenuDefaultValueType.User, id })));
+  }
+
+  public addDefaultRoles(...roleIds: Snowflake[]): this {
+    return this.addDefaultValues(roleIds.map((id) => ({ type: SelectMenuDefaultValueType.Role, id })));
+  }
+}
+
+export class ChannelSelectMenuBuilder extends AutoPopulatedSelectMenuBuilder<APIChannelSelectComponent> {
+  public constructor(data: Partial<APIChannelSelectComponent> = {}) {
+    super(ComponentType.ChannelSelect, data);
+  }
+
+  /**
+   * Restricts the channels that can be picked to these types
+   */
+  public addChannelTypes(...types: ChannelType[]): this {
+    this.data.channel_types = [...this.data.channel_types ?? [], ...types];
+    return this;
+  }
+
+  public addDefaultChannels(...channelIds: Snowflake[]): this {
+    return this.addDefaultValues(channelIds.map((id) => ({ type: SelectMenuDefaultValueType.Channel, id })));
+  }
+}
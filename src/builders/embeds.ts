@@ -0,0 +1,328 @@
+import type { APIEmbed, APIEmbedField } from 'discord-api-types/v10';
+import { BuilderValidationError } from './BuilderValidationError.js';
+import { validateCount, validateLength } from './validation.js';
+
+/**
+ * Named colors, the palette of Discord's role color picker plus its brand colors
+ */
+export const Colors = {
+  Default: 0x000000,
+  White: 0xffffff,
+  Aqua: 0x1abc9c,
+  Green: 0x57f287,
+  Blue: 0x3498db,
+  Yellow: 0xfee75c,
+  Purple: 0x9b59b6,
+  LuminousVividPink: 0xe91e63,
+  Fuchsia: 0xeb459e,
+  Gold: 0xf1c40f,
+  Orange: 0xe67e22,
+  Red: 0xed4245,
+  Grey: 0x95a5a6,
+  Navy: 0x34495e,
+  DarkAqua: 0x11806a,
+  DarkGreen: 0x1f8b4c,
+  DarkBlue: 0x206694,
+  DarkPurple: 0x71368a,
+  DarkVividPink: 0xad1457,
+  DarkGold: 0xc27c0e,
+  DarkOrange: 0xa84300,
+  DarkRed: 0x992d22,
+  DarkGrey: 0x979c9f,
+  DarkerGrey: 0x7f8c8d,
+  LightGrey: 0xbcc0c0,
+  DarkNavy: 0x2c3e50,
+  Blurple: 0x5865f2,
+  Greyple: 0x99aab5,
+  DarkButNotBlack: 0x2c2f33,
+  NotQuiteBlack: 0x23272a,
+} as const;
+
+/**
+ * A color as a number, a `#rrggbb` or `#rgb` hex string, a name of `Colors` or RGB components.
+ * Names are also resolved regardless of their case, and hex strings without `#`.
+ */
+export type ColorResolvable = number | `#${string}` | keyof typeof Colors | readonly [red: number, green: number, blue: number];
+
+export interface EmbedAuthorOptions {
+  name: string;
+  url?: string;
+  iconURL?: string;
+}
+
+export interface EmbedFooterOptions {
+  text: string;
+  iconURL?: string;
+}
+
+/** Discord's limits for embeds, in characters unless noted otherwise */
+export const EmbedLimits = {
+  Title: 256,
+  Description: 4096,
+  /** The number of fields */
+  Fields: 25,
+  FieldName: 256,
+  FieldValue: 1024,
+  FooterText: 2048,
+  AuthorName: 256,
+  /** The combined length of all text, across all embeds of a message */
+  Total: 6000,
+  /** The number of embeds in a message */
+  Embeds: 10,
+} as const;
+
+const colorNames = new Map(Object.entries(Colors).map(([name, color]) => [name.toLowerCase(), color]));
+
+/**
+ * Turns a color into the number Discord expects
+ *
+ * @throws {BuilderValidationError} When the color is not a known name, a valid hex string or within 0 to 0xFFFFFF
+ */
+export function resolveColor(color: ColorResolvable | string): number {
+  let resolved: number;
+  if (typeof color === 'number') {
+    resolved = color;
+  } else if (typeof color === 'string') {
+    const hex = /^#?([\da-f]{6}|[\da-f]{3})$/i.exec(color)?.[1];
+    resolved = hex
+      ? Number.parseInt(hex.length === 3 ? [...hex].map((digit) => digit + digit).join('') : hex, 16)
+      : colorNames.get(color.toLowerCase()) ?? Number.NaN;
+  } else {
+    resolved = color.some((component) => !Number.isInteger(component) || component < 0 || component > 255)
+      ? Number.NaN
+      : (color[0] << 16) + (color[1] << 8) + color[2];
+  }
+
+  if (!Number.isInteger(resolved) || resolved < 0 || resolved > 0xffffff) {
+    throw new BuilderValidationError('embed color', `${JSON.stringify(color)} is not a color name, hex string or number from 0 to 0xFFFFFF`);
+  }
+  return resolved;
+}
+
+/**
+ * The length of an embed's text as counted against the 6000 character limit
+ */
+export function embedLength(embed: APIEmbed): number {
+  return (embed.title?.length ?? 0)
+    + (embed.description?.length ?? 0)
+    + (embed.footer?.text.length ?? 0)
+    + (embed.author?.name.length ?? 0)
+    + (embed.fields ?? []).reduce((length, field) => length + field.name.length + field.value.length, 0);
+}
+
+/**
+ * Groups embeds into as few messages as the limits of 10 embeds and 6000 characters per message allow,
+ * e.g. to send the result of `EmbedBuilder#split`
+ */
+export function groupEmbeds(embeds: readonly APIEmbed[]): APIEmbed[][] {
+  const messages: APIEmbed[][] = [];
+  let current: APIEmbed[] = [];
+  let length = 0;
+
+  for (const embed of embeds) {
+    const next = embedLength(embed);
+    if (current.length && (current.length === EmbedLimits.Embeds || length + next > EmbedLimits.Total)) {
+      messages.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(embed);
+    length += next;
+  }
+
+  if (current.length) {
+    messages.push(current);
+  }
+  return messages;
+}
+
+/**
+ * Builds an embed, checking Discord's limits when serialized
+ *
+ * @example
+ * ```ts
+ * const embed = new EmbedBuilder()
+ *   .setTitle('Deploy finished')
+ *   .setColor('Green')
+ *   .addFields({ name: 'Duration', value: '42s', inline: true })
+ *   .setTimestamp()
+ *   .toJSON();
+ *
+ * await api.channels.createMessage(channelId, { embeds: [embed] });
+ * ```
+ */
+export class EmbedBuilder {
+  private readonly data: APIEmbed;
+
+  public constructor(data: APIEmbed = {}) {
+    this.data = structuredClone(data);
+  }
+
+  public setTitle(title: string | null): this {
+    this.data.title = title ?? undefined;
+    return this;
+  }
+
+  public setDescription(description: string | null): this {
+    this.data.description = description ?? undefined;
+    return this;
+  }
+
+  public setURL(url: string | null): this {
+    this.data.url = url ?? undefined;
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the color cannot be resolved
+   */
+  public setColor(color: ColorResolvable | null): this {
+    this.data.color = color === null ? undefined : resolveColor(color);
+    return this;
+  }
+
+  /**
+   * @param timestamp - A date, milliseconds since the epoch or an ISO 8601 string, defaults to now
+   * @throws {BuilderValidationError} When the timestamp is not a valid date
+   */
+  public setTimestamp(timestamp: Date | number | string | null = new Date()): this {
+    if (timestamp === null) {
+      this.data.timestamp = undefined;
+      return this;
+    }
+
+    const date = new Date(timestamp);
+    if (Number.isNaN(date.getTime())) {
+      throw new BuilderValidationError('embed timestamp', `${JSON.stringify(timestamp)} is not a valid date`);
+    }
+    this.data.timestamp = date.toISOString();
+    return this;
+  }
+
+  public setAuthor(author: EmbedAuthorOptions | null): this {
+    this.data.author = author ? removeUndefined({ name: author.name, url: author.url, icon_url: author.iconURL }) : undefined;
+    return this;
+  }
+
+  public setFooter(footer: EmbedFooterOptions | null): this {
+    this.data.footer = footer ? removeUndefined({ text: footer.text, icon_url: footer.iconURL }) : undefined;
+    return this;
+  }
+
+  public setImage(url: string | null): this {
+    this.data.image = url ? { url } : undefined;
+    return this;
+  }
+
+  public setThumbnail(url: string | null): this {
+    this.data.thumbnail = url ? { url } : undefined;
+    return this;
+  }
+
+  public addFields(...fields: APIEmbedField[]): this {
+    this.data.fields = [...this.data.fields ?? [], ...fields];
+    return this;
+  }
+
+  public setFields(...fields: APIEmbedField[]): this {
+    this.data.fields = [...fields];
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the embed exceeds Discord's limits
+   */
+  public toJSON(): APIEmbed {
+    const embed = removeUndefined(structuredClone(this.data));
+    validateEmbed(embed);
+    return embed;
+  }
+
+  /**
+   * Serializes the embed, spreading a description too long for one embed across several.
+   * The title, author and thumbnail stay on the first embed, and the fields, image, footer and
+   * timestamp move to the last one. Descriptions are split between lines where possible,
+   * as plain text, so Markdown spanning a cut such as a code block is not reopened.
+   *
+   * Discord allows 6000 characters across all embeds of a message, `groupEmbeds` spreads
+   * the embeds across messages accordingly.
+   *
+   * @throws {BuilderValidationError} When the embed exceeds Discord's limits other than the description length
+   */
+  public split(): APIEmbed[] {
+    const { description, title, url, author, thumbnail, fields, image, footer, timestamp, ...shared } = removeUndefined(structuredClone(this.data));
+    const head = removeUndefined({ title, url, author, thumbnail });
+    const tail = removeUndefined({ fields, image, footer, timestamp });
+
+    if (!description || description.length <= EmbedLimits.Description && embedLength(this.data) <= EmbedLimits.Total) {
+      return [this.toJSON()];
+    }
+
+    const chunks = splitText(description, EmbedLimits.Description);
+    // The last chunk shares the embed with the fields and footer, and with the title and
+    // author when it is also the first one, so it may need to be shorter
+    const shareLength = embedLength(tail) + (chunks.length === 1 ? embedLength(head) : 0);
+    const lastLength = Math.max(EmbedLimits.Total - shareLength, 1);
+    if (chunks[chunks.length - 1].length > lastLength) {
+      chunks.push(...splitText(chunks.pop()!, lastLength));
+    }
+
+    const embeds = chunks.map((chunk, index): APIEmbed => ({
+      ...shared,
+      ...index === 0 ? head : {},
+      description: chunk,
+      ...index === chunks.length - 1 ? tail : {},
+    }));
+    embeds.forEach(validateEmbed);
+    return embeds;
+  }
+}
+
+function validateEmbed(embed: APIEmbed): void {
+  validateLength('embed title', embed.title, 0, EmbedLimits.Title);
+  validateLength('embed description', embed.description, 0, EmbedLimits.Description);
+  validateLength('embed author name', embed.author?.name, 0, EmbedLimits.AuthorName);
+  validateLength('embed footer text', embed.footer?.text, 0, EmbedLimits.FooterText);
+  validateCount('embed fields', embed.fields, 0, EmbedLimits.Fields);
+
+  for (const [index, field] of (embed.fields ?? []).entries()) {
+    validateLength(`embed field ${index} name`, field.name, 1, EmbedLimits.FieldName);
+    validateLength(`embed field "${field.name}" value`, field.value, 1, EmbedLimits.FieldValue);
+  }
+
+  const length = embedLength(embed);
+  if (length > EmbedLimits.Total) {
+    throw new BuilderValidationError('embed', `must have at most ${EmbedLimits.Total} characters of text, got ${length}`);
+  }
+}
+
+/**
+ * Splits text into chunks of at most `maxLength`, preferring line breaks, then spaces
+ */
+function splitText(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength + 1);
+    const newline = window.lastIndexOf('\n');
+    const separator = newline > 0 ? newline : window.lastIndexOf(' ');
+    if (separator > 0) {
+      chunks.push(rest.slice(0, separator));
+      rest = rest.slice(separator + 1);
+      continue;
+    }
+
+    // Do not cut surrogate pairs in half
+    const cut = /[\uD800-\uDBFF]/.test(rest[maxLength - 1]) ? maxLength - 1 : maxLength;
+    chunks.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+
+  chunks.push(rest);
+  return chunks;
+}
+
+function removeUndefined<T extends object>(object: T): T {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined)) as T;
+}
@@ -0,0 +1,128 @@
+import type { Snowflake } from 'discord-api-types/v10';
+
+/**
+ * How `time` displays a timestamp, rendered in the reader's time zone and locale
+ */
+export const TimestampStyles = {
+  /** `16:20` */
+  ShortTime: 't',
+  /** `16:20:30` */
+  LongTime: 'T',
+  /** `20/04/2021` */
+  ShortDate: 'd',
+  /** `20 April 2021` */
+  LongDate: 'D',
+  /** `20 April 2021 16:20`, the default */
+  ShortDateTime: 'f',
+  /** `Tuesday, 20 April 2021 16:20` */
+  LongDateTime: 'F',
+  /** `2 months ago` or `in 5 minutes` */
+  RelativeTime: 'R',
+} as const;
+
+export type TimestampStyle = (typeof TimestampStyles)[keyof typeof TimestampStyles];
+
+export function userMention(userId: Snowflake): `<@${Snowflake}>` {
+  return `<@${userId}>`;
+}
+
+export function channelMention(channelId: Snowflake): `<#${Snowflake}>` {
+  return `<#${channelId}>`;
+}
+
+export function roleMention(roleId: Snowflake): `<@&${Snowflake}>` {
+  return `<@&${roleId}>`;
+}
+
+/**
+ * Mentions a chat input command, which users can click to run it
+ *
+ * @param name - The full name, e.g. `admin ban` for the `ban` subcommand of `admin`
+ */
+export function commandMention(name: string, commandId: Snowflake): string {
+  return `</${name}:${commandId}>`;
+}
+
+export function formatEmoji(name: string, emojiId: Snowflake, animated = false): string {
+  return `<${animated ? 'a' : ''}:${name}:${emojiId}>`;
+}
+
+/**
+ * Formats a timestamp that every reader sees in their own time zone
+ *
+ * @param date - A date, or seconds since the epoch as used by Discord's markup
+ */
+export function time(date: Date | number, style?: TimestampStyle): string {
+  const seconds = date instanceof Date ? Math.floor(date.getTime() / 1000) : date;
+  return style ? `<t:${seconds}:${style}>` : `<t:${seconds}>`;
+}
+
+export function bold(content: string): string {
+  return `**${content}**`;
+}
+
+export function italic(content: string): string {
+  return `_${content}_`;
+}
+
+export function underline(content: string): string {
+  return `__${content}__`;
+}
+
+export function strikethrough(content: string): string {
+  return `~~${content}~~`;
+}
+
+export function spoiler(content: string): string {
+  return `||${content}||`;
+}
+
+export function quote(content: string): string {
+  return content.replace(/^/gm, '> ');
+}
+
+export function hyperlink(content: string, url: string): string {
+  return `[${content}](${url})`;
+}
+
+/**
+ * Wraps a URL in `<>`, so Discord does not show a preview of it
+ */
+export function hideLinkEmbed(url: string): string {
+  return `<${url}>`;
+}
+
+/**
+ * Wraps content in inline code, using double backticks when it contains backticks itself
+ */
+export function inlineCode(content: string): string {
+  if (!content.includes('`')) {
+    return `\`${content}\``;
+  }
+
+  // Spaces keep backticks at either end apart from the delimiters
+  return `\`\` ${content.replace(/``/g, '`\u200b`')} \`\``;
+}
+
+/**
+ * Wraps content in a code block. Fences within the content are broken up with a zero-width
+ * space, so they do not end the block early.
+ *
+ * @param language - The language to highlight the code as, e.g. `ts`
+ */
+export function codeBlock(content: string, language = ''): string {
+  return `\`\`\`${language}\n${content.replace(/```/g, '`\u200b``')}\n\`\`\``;
+}
+
+/**
+ * Escapes Markdown in user input, so it is shown as typed. Mentions are left as they are,
+ * use `allowed_mentions` to keep them from pinging.
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\*_~`|[\]]/g, '\\$&')
+    // Headings, subtext, block quotes and lists only apply at the start of a line
+    .replace(/^(\s*)(#{1,3} |-# |>>> |> |[-+] )/gm, (_, indent: string, marker: string) => `${indent}\\${marker}`)
+    // A backslash before the number would be shown while the list still renders, so the dot is escaped
+    .replace(/^(\s*\d+)\. /gm, '$1\\. ');
+}
@@ -0,0 +1,8 @@
+export * from './commands.js';
+export * from './commandOptions.js';
+export * from './components.js';
+export * from './modals.js';
+export * from './embeds.js';
+export * from './formatters.js';
+export * from './BuilderValidationError.js';
+export type { JSONEncodable } from './validation.js';
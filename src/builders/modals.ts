@@ -0,0 +1,164 @@
+import { ComponentType, TextInputStyle } from 'discord-api-types/v10';
+import type {
+  APIActionRowComponent,
+  APIModalInteractionResponseCallbackData,
+  APITextInputComponent,
+} from 'discord-api-types/v10';
+import { BuilderValidationError } from './BuilderValidationError.js';
+import { ActionRowBuilder } from './components.js';
+import {
+  resolveJSON,
+  validateCount,
+  validateCustomId,
+  validateLength,
+  validateOrder,
+  validateRange,
+  type JSONEncodable,
+} from './validation.js';
+
+type ModalComponentInput =
+  | APITextInputComponent
+  | JSONEncodable<APITextInputComponent>
+  | APIActionRowComponent<APITextInputComponent>
+  | JSONEncodable<APIActionRowComponent<APITextInputComponent>>;
+
+/**
+ * Builds a modal for `Interaction#showModal`. Text inputs can be added directly, each one
+ * is put in an action row of its own.
+ *
+ * @example
+ * ```ts
+ * await interaction.showModal(
+ *   new ModalBuilder()
+ *     .setCustomId('feedback')
+ *     .setTitle('Feedback')
+ *     .addComponents(
+ *       new TextInputBuilder().setCustomId('message').setLabel('Message').setStyle(TextInputStyle.Paragraph),
+ *     )
+ *     .toJSON(),
+ * );
+ * ```
+ */
+export class ModalBuilder {
+  private readonly data: Partial<Omit<APIModalInteractionResponseCallbackData, 'components'>>;
+  private components: ModalComponentInput[] = [];
+
+  public constructor(data: Partial<Omit<APIModalInteractionResponseCallbackData, 'components'>> = {}) {
+    this.data = { ...data };
+  }
+
+  public setCustomId(customId: string): this {
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  public setTitle(title: string): this {
+    this.data.title = title;
+    return this;
+  }
+
+  public addComponents(...components: ModalComponentInput[]): this {
+    this.components.push(...components);
+    return this;
+  }
+
+  public setComponents(...components: ModalComponentInput[]): this {
+    this.components = [...components];
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the modal or one of its text inputs exceeds Discord's limits
+   */
+  public toJSON(): APIModalInteractionResponseCallbackData {
+    validateCustomId('modal custom id', this.data.custom_id);
+    validateLength(`modal "${this.data.custom_id}" title`, this.data.title, 1, 45);
+
+    const components = this.components.map((component) => {
+      const resolved = resolveJSON<APITextInputComponent | APIActionRowComponent<APITextInputComponent>>(component);
+      return resolved.type === ComponentType.TextInput
+        ? new ActionRowBuilder<APITextInputComponent>([resolved]).toJSON()
+        : new ActionRowBuilder<APITextInputComponent>(resolved.components).toJSON();
+    });
+    validateCount(`modal "${this.data.custom_id}" components`, components, 1, 5);
+
+    return { ...this.data, components } as APIModalInteractionResponseCallbackData;
+  }
+}
+
+/**
+ * Builds a text input of a modal
+ */
+export class TextInputBuilder {
+  private readonly data: Partial<APITextInputComponent>;
+
+  public constructor(data: Partial<APITextInputComponent> = {}) {
+    this.data = { ...data, type: ComponentType.TextInput };
+  }
+
+  public setCustomId(customId: string): this {
+    this.data.custom_id = customId;
+    return this;
+  }
+
+  public setLabel(label: string): this {
+    this.data.label = label;
+    return this;
+  }
+
+  /**
+   * `TextInputStyle.Short` for a single line, `TextInputStyle.Paragraph` for multiple lines
+   */
+  public setStyle(style: TextInputStyle): this {
+    this.data.style = style;
+    return this;
+  }
+
+  public setPlaceholder(placeholder: string): this {
+    this.data.placeholder = placeholder;
+    return this;
+  }
+
+  /**
+   * Pre-fills the text input
+   */
+  public setValue(value: string): this {
+    this.data.value = value;
+    return this;
+  }
+
+  public setMinLength(minLength: number): this {
+    this.data.min_length = minLength;
+    return this;
+  }
+
+  public setMaxLength(maxLength: number): this {
+    this.data.max_length = maxLength;
+    return this;
+  }
+
+  public setRequired(required = true): this {
+    this.data.required = required;
+    return this;
+  }
+
+  /**
+   * @throws {BuilderValidationError} When the text input exceeds Discord's limits
+   */
+  public toJSON(): APITextInputComponent {
+    validateCustomId('text input custom id', this.data.custom_id);
+
+    const label = `text input "${this.data.custom_id}"`;
+    if (this.data.style !== TextInputStyle.Short && this.data.style !== TextInputStyle.Paragraph) {
+      throw new BuilderValidationError(`${label} style`, 'must be Short or Paragraph');
+    }
+    validateLength(`${label} label`, this.data.label, 1, 45);
+    validateLength(`${label} placeholder`, this.data.placeholder, 0, 100);
+    validateLength(`${label} value`, this.data.value, 0, 4000);
+    validateRange(`${label} min_length`, this.data.min_length, 0, 4000);
+    validateRange(`${label} max_length`, this.data.max_length, 1, 4000);
+    validateOrder(`${label} min_length`, this.data.min_length, 'max_length', this.data.max_length);
+
+    return { ...this.data } as APITextInputComponent;
+  }
+}
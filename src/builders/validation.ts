@@ -0,0 +1,79 @@
+import type { LocalizationMap } from 'discord-api-types/v10';
+import { BuilderValidationError } from './BuilderValidationError.js';
+
+/**
+ * An object that turns into a payload when serialized, such as a builder
+ */
+export interface JSONEncodable<T> {
+  toJSON(): T;
+}
+
+export function resolveJSON<T>(value: T | JSONEncodable<T>): T {
+  return typeof (value as JSONEncodable<T>)?.toJSON === 'function' ? (value as JSONEncodable<T>).toJSON() : value as T;
+}
+
+export function validateLength(field: string, value: string | undefined, min: number, max: number): void {
+  if (value === undefined) {
+    if (min > 0) {
+      throw new BuilderValidationError(field, 'is required');
+    }
+    return;
+  }
+
+  if (value.length < min || value.length > max) {
+    throw new BuilderValidationError(field, `must be ${formatRange(min, max)} characters long, got ${value.length}`);
+  }
+}
+
+export function validateCount(field: string, items: readonly unknown[] | undefined, min: number, max: number): void {
+  const count = items?.length ?? 0;
+  if (count < min || count > max) {
+    throw new BuilderValidationError(field, `must have ${formatRange(min, max)} entries, got ${count}`);
+  }
+}
+
+export function validateRange(field: string, value: number | undefined, min: number, max: number): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+    throw new BuilderValidationError(field, `must be an integer from ${min} to ${max}, got ${value}`);
+  }
+}
+
+export function validateOrder(minField: string, min: number | undefined, maxField: string, max: number | undefined): void {
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new BuilderValidationError(minField, `must not be greater than ${maxField} (${min} > ${max})`);
+  }
+}
+
+export function validateLocalizations(
+  field: string,
+  localizations: LocalizationMap | null | undefined,
+  validate: (field: string, value: string) => void,
+): void {
+  for (const [locale, value] of Object.entries(localizations ?? {})) {
+    if (value !== null && value !== undefined) {
+      validate(`${field} (${locale})`, value);
+    }
+  }
+}
+
+// Chat input command and option names may not contain uppercase letters or most symbols
+const CHAT_INPUT_NAME = /^[-_'\p{L}\p{N}\p{sc=Deva}\p{sc=Thai}]{1,32}$/u;
+
+export function validateChatInputName(field: string, name: string | undefined): void {
+  validateLength(field, name, 1, 32);
+  if (!CHAT_INPUT_NAME.test(name!) || name !== name!.toLowerCase()) {
+    throw new BuilderValidationError(field, `"${name}" must be lowercase and may only contain letters, numbers, "-", "_" and "'"`);
+  }
+}
+
+export function validateDescription(field: string, description: string | undefined): void {
+  validateLength(field, description, 1, 100);
+}
+
+export function validateCustomId(field: string, customId: string | undefined): void {
+  validateLength(field, customId, 1, 100);
+}
+
+function formatRange(min: number, max: number): string {
+  return min === 0 ? `at most ${max}` : min === max ? `exactly ${min}` : `${min} to ${max}`;
+}
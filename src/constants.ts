@@ -9,15 +9,21 @@ export enum RESTEvents {
   RateLimited = 'rateLimited',
   Request = 'request',
   Response = 'response',
+  /** @deprecated Listen for {@link RESTEvents.Debug} instead, this event is never dispatched */
   RestDebug = 'restDebug',
 }
 
 export const DefaultRestOptions = {
   api: API_BASE,
+  authPrefix: 'Bot',
   cdn: CDN_BASE,
   headers: {
     'User-Agent': DEFAULT_USER_AGENT,
   },
   retries: 3,
   timeout: 15_000,
+  globalRequestsPerSecond: 50,
+  offset: 50,
+  makeRequest: (url: string, init: RequestInit) => fetch(url, init),
+  maxUploadSize: 10 * 1024 * 1024,
 } as const;
\ No newline at end of file
@@ -0,0 +1,28 @@
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Imports a key once per isolate, reusing the import for later calls with the same cache key
+ *
+ * @param cacheKey - Identifies the key material and algorithm, e.g. `HMAC:${secret}`
+ */
+export async function importCachedKey(cacheKey: string, importKey: () => Promise<CryptoKey>): Promise<CryptoKey> {
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    key = importKey();
+    // Imports are cached per isolate, so a failed one must not stick around
+    key.catch(() => keyCache.delete(cacheKey));
+    keyCache.set(cacheKey, key);
+  }
+
+  return key;
+}
+
+/**
+ * Encodes bytes as base64url without padding
+ */
+export function toBase64URL(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
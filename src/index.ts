@@ -1,5 +1,7 @@
 export * from './rest/index.js';
 export * from './api/index.js';
+export * from './interactions/index.js';
+export * from './builders/index.js';
 export * from './types.js';
 export * from './constants.js';
 export * from './ws/index.js';
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * Thrown when encoded component state does not fit in a `custom_id` and no store is
+ * configured to hold it
+ */
+export class CustomIdLengthError extends Error {
+  public readonly name = 'CustomIdLengthError';
+
+  /**
+   * @param customId - The encoded `custom_id`
+   * @param limit - The most characters Discord accepts
+   */
+  public constructor(
+    public readonly customId: string,
+    public readonly limit: number,
+  ) {
+    super(`Custom id "${customId}" is ${customId.length} characters, more than the limit of ${limit}. Configure a store for larger state`);
+  }
+}
@@ -0,0 +1,86 @@
+import type { D1Database, KVNamespace } from '@cloudflare/workers-types';
+
+/**
+ * Storage for component state too large for a `custom_id`, keyed by a random id
+ */
+export interface CustomIdStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string): Promise<void>;
+}
+
+export interface CustomIdStoreOptions {
+  /** Prefix for the keys, so the namespace or table can be shared */
+  prefix?: string;
+  /**
+   * Seconds to keep state for. Components using it stop working afterwards, so this should
+   * outlive the messages they are on. Kept forever by default.
+   */
+  ttl?: number;
+}
+
+/**
+ * Stores component state in a KV namespace
+ */
+export class KVCustomIdStore implements CustomIdStore {
+  private readonly prefix: string;
+  private readonly ttl: number | undefined;
+
+  public constructor(
+    private readonly namespace: KVNamespace,
+    { prefix = 'custom-id:', ttl }: CustomIdStoreOptions = {},
+  ) {
+    this.prefix = prefix;
+    this.ttl = ttl;
+  }
+
+  public async get(key: string): Promise<string | null> {
+    return this.namespace.get(this.prefix + key);
+  }
+
+  public async put(key: string, value: string): Promise<void> {
+    // KV enforces a minimum TTL of 60 seconds
+    await this.namespace.put(this.prefix + key, value, this.ttl === undefined ? {} : {
+      expirationTtl: Math.max(this.ttl, 60),
+    });
+  }
+}
+
+/**
+ * Stores component state in a D1 table, created with:
+ *
+ * ```sql
+ * CREATE TABLE custom_ids (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER);
+ * ```
+ *
+ * Expired rows are ignored but not deleted, clean them up with a scheduled
+ * `DELETE FROM custom_ids WHERE expires_at < unixepoch()`.
+ */
+export class D1CustomIdStore implements CustomIdStore {
+  private readonly prefix: string;
+  private readonly ttl: number | undefined;
+  private readonly table: string;
+
+  public constructor(
+    private readonly database: D1Database,
+    { prefix = '', ttl, table = 'custom_ids' }: CustomIdStoreOptions & { table?: string } = {},
+  ) {
+    this.prefix = prefix;
+    this.ttl = ttl;
+    this.table = table;
+  }
+
+  public async get(key: string): Promise<string | null> {
+    return this.database
+      .prepare(`SELECT value FROM ${this.table} WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`)
+      .bind(this.prefix + key, Math.floor(Date.now() / 1000))
+      .first<string>('value');
+  }
+
+  public async put(key: string, value: string): Promise<void> {
+    const expiresAt = this.ttl === undefined ? null : Math.floor(Date.now() / 1000) + this.ttl;
+    await this.database
+      .prepare(`INSERT INTO ${this.table} (key, value, expires_at) VALUES (?, ?, ?)`)
+      .bind(this.prefix + key, value, expiresAt)
+      .run();
+  }
+}
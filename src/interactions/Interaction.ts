@@ -0,0 +1,391 @@
+import {
+  ApplicationCommandOptionType,
+  InteractionResponseType,
+  MessageFlags,
+  RESTJSONErrorCodes,
+} from 'discord-api-types/v10';
+import type {
+  APIApplicationCommandInteractionDataBasicOption,
+  APIApplicationCommandInteractionDataOption,
+  APIApplicationCommandOptionChoice,
+  APIAttachment,
+  APIInteraction,
+  APIInteractionDataResolved,
+  APIInteractionDataResolvedChannel,
+  APIInteractionDataResolvedGuildMember,
+  APIInteractionResponseCallbackData,
+  APIModalInteractionResponseCallbackData,
+  APIRole,
+  APIUser,
+  RESTPatchAPIInteractionOriginalResponseResult,
+  RESTPostAPIInteractionFollowupResult,
+  Snowflake,
+} from 'discord-api-types/v10';
+import type {
+  API,
+  CreateFollowupOptions,
+  CreateInteractionResponseOptions,
+  EditInteractionResponseOptions,
+} from '../api/index.js';
+import { DiscordAPIError } from '../rest/DiscordAPIError.js';
+import { sleep } from '../rest/utils.js';
+import type { RawFile } from '../types.js';
+import { MissingOptionError } from './MissingOptionError.js';
+import { getReceivedOptions } from './options.js';
+
+export interface InteractionOptions {
+  /**
+   * Receives the initial response instead of it being sent to the callback endpoint,
+   * so it can be returned as the HTTP response to Discord's request
+   */
+  respond?: (response: CreateInteractionResponseOptions) => void;
+}
+
+export type InteractionReplyOptions = APIInteractionResponseCallbackData & {
+  files?: RawFile[];
+  /** Shorthand for the `Ephemeral` message flag */
+  ephemeral?: boolean;
+};
+
+export type InteractionFollowUpOptions = CreateFollowupOptions & {
+  ephemeral?: boolean;
+};
+
+/** Delays in milliseconds between attempts of a webhook request that raced the initial response */
+const WEBHOOK_RETRY_DELAYS = [250, 500, 1000, 2000];
+
+type OptionValue<Type extends ApplicationCommandOptionType> = Type extends ApplicationCommandOptionType.String
+  ? string
+  : Type extends ApplicationCommandOptionType.Boolean
+    ? boolean
+    : Type extends ApplicationCommandOptionType.Integer | ApplicationCommandOptionType.Number
+      ? number
+      : Snowflake;
+
+/**
+ * Wraps a received interaction, keeping track of whether it was answered so replies go
+ * to the callback endpoint first and to the interaction webhook afterwards
+ */
+export class Interaction<Raw extends APIInteraction = APIInteraction> {
+  /** Whether a message was sent as the initial response, or the deferred one was edited */
+  public replied = false;
+  /** Whether the initial response was a deferral */
+  public deferred = false;
+
+  private readonly respond?: (response: CreateInteractionResponseOptions) => void;
+  /**
+   * Whether Discord has surely processed the initial response. When it is returned as the HTTP
+   * response instead, that is only known once a webhook request succeeded.
+   */
+  private initialResponseProcessed: boolean;
+
+  public constructor(
+    public readonly api: API,
+    public readonly raw: Raw,
+    { respond }: InteractionOptions = {},
+  ) {
+    this.respond = respond;
+    this.initialResponseProcessed = !respond;
+  }
+
+  public get id(): Snowflake {
+    return this.raw.id;
+  }
+
+  public get applicationId(): Snowflake {
+    return this.raw.application_id;
+  }
+
+  public get token(): string {
+    return this.raw.token;
+  }
+
+  public get data(): Raw['data'] {
+    return this.raw.data;
+  }
+
+  /** The user who triggered the interaction, in guilds as well as DMs */
+  public get user(): APIUser | undefined {
+    return this.raw.member?.user ?? this.raw.user;
+  }
+
+  public get guildId(): Snowflake | undefined {
+    return this.raw.guild_id;
+  }
+
+  public get channelId(): Snowflake | undefined {
+    return this.raw.channel?.id;
+  }
+
+  /** Whether the initial response was sent, after which only the webhook endpoints accept messages */
+  public get responded(): boolean {
+    return this.replied || this.deferred;
+  }
+
+  /**
+   * Sends a message: the initial response, the edit of a deferred one, or a follow-up
+   */
+  public async reply(options: InteractionReplyOptions): Promise<void> {
+    if (!this.responded) {
+      const { files, ...data } = toMessageData(options);
+      await this.sendInitialResponse({ type: InteractionResponseType.ChannelMessageWithSource, data, files });
+      this.replied = true;
+    } else if (!this.replied) {
+      // Whether the message is ephemeral was decided by the deferral and cannot be changed
+      const { ephemeral, ...data } = options;
+      await this.editReply(data as EditInteractionResponseOptions);
+      this.replied = true;
+    } else {
+      await this.followUp(options);
+    }
+  }
+
+  /**
+   * Acknowledges the interaction and shows a loading state, to be replaced with `editReply`
+   */
+  public async deferReply({ ephemeral = false }: { ephemeral?: boolean } = {}): Promise<void> {
+    this.assertNotResponded();
+    await this.sendInitialResponse({
+      type: InteractionResponseType.DeferredChannelMessageWithSource,
+      data: ephemeral ? { flags: MessageFlags.Ephemeral } : undefined,
+    });
+    this.deferred = true;
+  }
+
+  /**
+   * Acknowledges a component interaction without changing its message yet
+   */
+  public async deferUpdate(): Promise<void> {
+    this.assertNotResponded();
+    await this.sendInitialResponse({ type: InteractionResponseType.DeferredMessageUpdate });
+    this.deferred = true;
+  }
+
+  /**
+   * Edits the message a component is attached to as the initial response
+   */
+  public async update({ files, ...data }: APIInteractionResponseCallbackData & { files?: RawFile[] }): Promise<void> {
+    this.assertNotResponded();
+    await this.sendInitialResponse({ type: InteractionResponseType.UpdateMessage, data, files });
+    this.replied = true;
+  }
+
+  public async editReply(options: EditInteractionResponseOptions): Promise<RESTPatchAPIInteractionOriginalResponseResult> {
+    this.assertResponded();
+    const message = await this.callWebhook(() => this.api.interactions.editReply(this.applicationId, this.token, options));
+    this.replied = true;
+    return message;
+  }
+
+  public async deleteReply(): Promise<void> {
+    this.assertResponded();
+    await this.callWebhook(() => this.api.interactions.deleteReply(this.applicationId, this.token));
+  }
+
+  public async followUp(options: InteractionFollowUpOptions): Promise<RESTPostAPIInteractionFollowupResult> {
+    this.assertResponded();
+    return this.callWebhook(() => this.api.interactions.followUp(this.applicationId, this.token, toMessageData(options)));
+  }
+
+  public async showModal(data: APIModalInteractionResponseCallbackData): Promise<void> {
+    this.assertNotResponded();
+    await this.sendInitialResponse({ type: InteractionResponseType.Modal, data });
+    this.replied = true;
+  }
+
+  public async respondAutocomplete(choices: APIApplicationCommandOptionChoice[]): Promise<void> {
+    this.assertNotResponded();
+    await this.sendInitialResponse({ type: InteractionResponseType.ApplicationCommandAutocompleteResult, data: { choices } });
+    this.replied = true;
+  }
+
+  /** The subcommand group that was used, if any */
+  public getSubcommandGroup(): string | null {
+    return getReceivedOptions(this.getRootOptions()).subcommandGroup;
+  }
+
+  /** The subcommand that was used, if any */
+  public getSubcommand(): string | null {
+    return getReceivedOptions(this.getRootOptions()).subcommand;
+  }
+
+  /** The option being typed in, for autocomplete interactions */
+  public getFocused(): { name: string; type: ApplicationCommandOptionType; value: string | number } | null {
+    const focused = this.getOptions().find((option) => 'focused' in option && option.focused);
+    return focused
+      ? { name: focused.name, type: focused.type, value: focused.value as string | number }
+      : null;
+  }
+
+  public getString(name: string, required: true): string;
+  public getString(name: string, required?: boolean): string | null;
+  public getString(name: string, required = false): string | null {
+    return this.getOptionValue(name, ApplicationCommandOptionType.String, required);
+  }
+
+  public getInteger(name: string, required: true): number;
+  public getInteger(name: string, required?: boolean): number | null;
+  public getInteger(name: string, required = false): number | null {
+    return this.getOptionValue(name, ApplicationCommandOptionType.Integer, required);
+  }
+
+  public getNumber(name: string, required: true): number;
+  public getNumber(name: string, required?: boolean): number | null;
+  public getNumber(name: string, required = false): number | null {
+    return this.getOptionValue(name, ApplicationCommandOptionType.Number, required);
+  }
+
+  public getBoolean(name: string, required: true): boolean;
+  public getBoolean(name: string, required?: boolean): boolean | null;
+  public getBoolean(name: string, required = false): boolean | null {
+    return this.getOptionValue(name, ApplicationCommandOptionType.Boolean, required);
+  }
+
+  public getUser(name: string, required: true): APIUser;
+  public getUser(name: string, required?: boolean): APIUser | null;
+  public getUser(name: string, required = false): APIUser | null {
+    const id = this.getOptionValue(name, ApplicationCommandOptionType.User, required);
+    return id ? this.resolve('users', id, name) : null;
+  }
+
+  /** The guild member behind a user option, `null` in DMs or when the user left the guild */
+  public getMember(name: string): APIInteractionDataResolvedGuildMember | null {
+    const id = this.getOptionValue(name, ApplicationCommandOptionType.User, false);
+    return (id && this.getResolved()?.members?.[id]) || null;
+  }
+
+  public getRole(name: string, required: true): APIRole;
+  public getRole(name: string, required?: boolean): APIRole | null;
+  public getRole(name: string, required = false): APIRole | null {
+    const id = this.getOptionValue(name, ApplicationCommandOptionType.Role, required);
+    return id ? this.resolve('roles', id, name) : null;
+  }
+
+  public getChannel(name: string, required: true): APIInteractionDataResolvedChannel;
+  public getChannel(name: string, required?: boolean): APIInteractionDataResolvedChannel | null;
+  public getChannel(name: string, required = false): APIInteractionDataResolvedChannel | null {
+    const id = this.getOptionValue(name, ApplicationCommandOptionType.Channel, required);
+    return id ? this.resolve('channels', id, name) : null;
+  }
+
+  /** A mentionable option resolves to either a user or a role */
+  public getMentionable(name: string, required: true): APIUser | APIRole;
+  public getMentionable(name: string, required?: boolean): APIUser | APIRole | null;
+  public getMentionable(name: string, required = false): APIUser | APIRole | null {
+    const id = this.getOptionValue(name, ApplicationCommandOptionType.Mentionable, required);
+    if (!id) {
+      return null;
+    }
+    return this.getResolved()?.users?.[id] ?? this.resolve('roles', id, name);
+  }
+
+  public getAttachment(name: string, required: true): APIAttachment;
+  public getAttachment(name: string, required?: boolean): APIAttachment | null;
+  public getAttachment(name: string, required = false): APIAttachment | null {
+    const id = this.getOptionValue(name, ApplicationCommandOptionType.Attachment, required);
+    return id ? this.resolve('attachments', id, name) : null;
+  }
+
+  private async sendInitialResponse(response: CreateInteractionResponseOptions): Promise<void> {
+    if (this.respond) {
+      this.respond(response);
+      return;
+    }
+
+    await this.api.interactions.reply(this.id, this.token, response);
+  }
+
+  /**
+   * Retries webhook requests that race the initial response, e.g. an `editReply` from
+   * `ctx.waitUntil` reaching Discord before the deferral returned as the HTTP response
+   */
+  private async callWebhook<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await request();
+        this.initialResponseProcessed = true;
+        return result;
+      } catch (error) {
+        if (this.initialResponseProcessed || attempt >= WEBHOOK_RETRY_DELAYS.length || !isUnknownInteractionError(error)) {
+          throw error;
+        }
+        await sleep(WEBHOOK_RETRY_DELAYS[attempt]);
+      }
+    }
+  }
+
+  private assertNotResponded(): void {
+    if (this.responded) {
+      throw new Error(`Interaction ${this.id} has already been responded to`);
+    }
+  }
+
+  private assertResponded(): void {
+    if (!this.responded) {
+      throw new Error(`Interaction ${this.id} must be replied to or deferred first`);
+    }
+  }
+
+  private getRootOptions(): APIApplicationCommandInteractionDataOption[] {
+    const data = this.raw.data as { options?: APIApplicationCommandInteractionDataOption[] } | undefined;
+    return data?.options ?? [];
+  }
+
+  private getOptions(): APIApplicationCommandInteractionDataBasicOption[] {
+    return getReceivedOptions(this.getRootOptions()).options;
+  }
+
+  private getOptionValue<Type extends ApplicationCommandOptionType>(
+    name: string,
+    type: Type,
+    required: boolean,
+  ): OptionValue<Type> | null {
+    const option = this.getOptions().find((candidate) => candidate.name === name);
+
+    if (!option) {
+      if (required) {
+        const { subcommandGroup, subcommand } = getReceivedOptions(this.getRootOptions());
+        const data = this.raw.data as { name?: string } | undefined;
+        throw new MissingOptionError(name, [data?.name, subcommandGroup, subcommand].filter(Boolean).join(' '));
+      }
+      return null;
+    }
+
+    if (option.type !== type) {
+      throw new TypeError(`Option "${name}" is of type ${ApplicationCommandOptionType[option.type]}, not ${ApplicationCommandOptionType[type]}`);
+    }
+
+    return option.value as OptionValue<Type>;
+  }
+
+  private getResolved(): APIInteractionDataResolved | undefined {
+    const data = this.raw.data as { resolved?: APIInteractionDataResolved } | undefined;
+    return data?.resolved;
+  }
+
+  private resolve<Key extends keyof APIInteractionDataResolved>(
+    key: Key,
+    id: Snowflake,
+    name: string,
+  ): NonNullable<APIInteractionDataResolved[Key]>[Snowflake] {
+    const entity = this.getResolved()?.[key]?.[id];
+    if (!entity) {
+      throw new Error(`Option "${name}" references ${id}, which is missing from the resolved data`);
+    }
+    return entity as NonNullable<APIInteractionDataResolved[Key]>[Snowflake];
+  }
+}
+
+function isUnknownInteractionError(error: unknown): boolean {
+  return error instanceof DiscordAPIError
+    && (error.code === RESTJSONErrorCodes.UnknownWebhook || error.code === RESTJSONErrorCodes.UnknownInteraction);
+}
+
+function toMessageData<Options extends { ephemeral?: boolean; flags?: number }>(
+  { ephemeral, ...data }: Options,
+): Omit<Options, 'ephemeral'> {
+  if (ephemeral) {
+    return { ...data, flags: (data.flags ?? 0) | MessageFlags.Ephemeral };
+  }
+  return data;
+}
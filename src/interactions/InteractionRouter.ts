@@ -0,0 +1,323 @@
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+} from 'discord-api-types/v10';
+import type {
+  APIApplicationCommandAutocompleteInteraction,
+  APIApplicationCommandInteractionDataOption,
+  APIChatInputApplicationCommandInteraction,
+  APIInteraction,
+  APIMessageApplicationCommandInteraction,
+  APIMessageComponentInteraction,
+  APIModalSubmitInteraction,
+  APIUserApplicationCommandInteraction,
+} from 'discord-api-types/v10';
+import type { API, CreateInteractionResponseOptions } from '../api/index.js';
+import { DefaultRestOptions } from '../constants.js';
+import { createFormData } from '../rest/files.js';
+import type { Awaitable } from '../types.js';
+import { CustomIdCodec, type CustomIdFields, type CustomIdState } from './customId.js';
+import { Interaction } from './Interaction.js';
+import { ModalDefinition, type ModalFieldDefinitions, type ModalValues } from './ModalDefinition.js';
+import { verifyInteractionRequest } from './verify.js';
+
+export interface InteractionRouterContext<Env = unknown> {
+  /** Client used for follow-ups and any other requests made by handlers */
+  api: API;
+  env: Env;
+  /** The Worker's execution context, needed by `deferInteraction` to finish work after responding */
+  ctx?: Pick<ExecutionContext, 'waitUntil'>;
+}
+
+export interface InteractionHandlerContext<Env = unknown, State = undefined> extends InteractionRouterContext<Env> {
+  /** Result of the `RegExp` a component or modal `custom_id` matched, `null` for other routes */
+  match: RegExpExecArray | null;
+  /**
+   * State decoded from the `custom_id` by the `CustomIdCodec` of the route, or the values
+   * submitted to its `ModalDefinition`
+   */
+  state: State;
+}
+
+/**
+ * Answers an interaction by returning the response, or by calling `reply`, `deferReply` or
+ * another initial response method of `interaction`
+ */
+export type InteractionHandler<Raw extends APIInteraction, Env = unknown, State = undefined> = (
+  interaction: Interaction<Raw>,
+  context: InteractionHandlerContext<Env, State>,
+) => Awaitable<CreateInteractionResponseOptions | void>;
+
+type CustomIdMatcher = string | RegExp;
+
+interface CustomIdRoute<Raw extends APIInteraction, Env> {
+  matcher: CustomIdMatcher | CustomIdCodec<CustomIdFields, Env> | ModalDefinition;
+  handler: InteractionHandler<Raw, Env, unknown>;
+}
+
+/**
+ * Dispatches interactions to the handler registered for their command, context menu,
+ * component or modal, replacing hand-written `if (data.name === ...)` ladders
+ *
+ * Chat input commands are registered by their full name, e.g. `'admin ban'` for the `ban`
+ * subcommand of `admin`. A handler registered for `'admin'` receives every subcommand
+ * without a handler of its own.
+ */
+export class InteractionRouter<Env = unknown> {
+  private readonly commands = new Map<string, InteractionHandler<APIChatInputApplicationCommandInteraction, Env>>();
+  private readonly userCommands = new Map<string, InteractionHandler<APIUserApplicationCommandInteraction, Env>>();
+  private readonly messageCommands = new Map<string, InteractionHandler<APIMessageApplicationCommandInteraction, Env>>();
+  private readonly autocompletes = new Map<string, InteractionHandler<APIApplicationCommandAutocompleteInteraction, Env>>();
+  private readonly components: CustomIdRoute<APIMessageComponentInteraction, Env>[] = [];
+  private readonly modals: CustomIdRoute<APIModalSubmitInteraction, Env>[] = [];
+
+  public command(name: string, handler: InteractionHandler<APIChatInputApplicationCommandInteraction, Env>): this {
+    this.commands.set(name, handler);
+    return this;
+  }
+
+  public userCommand(name: string, handler: InteractionHandler<APIUserApplicationCommandInteraction, Env>): this {
+    this.userCommands.set(name, handler);
+    return this;
+  }
+
+  public messageCommand(name: string, handler: InteractionHandler<APIMessageApplicationCommandInteraction, Env>): this {
+    this.messageCommands.set(name, handler);
+    return this;
+  }
+
+  public autocomplete(name: string, handler: InteractionHandler<APIApplicationCommandAutocompleteInteraction, Env>): this {
+    this.autocompletes.set(name, handler);
+    return this;
+  }
+
+  /**
+   * Handles components whose `custom_id` equals `customId`, or matches it when it is a `RegExp`.
+   * With a `CustomIdCodec`, handles the custom ids it created and passes their state as
+   * `context.state`. Routes are tried in the order they were registered.
+   */
+  public component<const Fields extends CustomIdFields>(
+    codec: CustomIdCodec<Fields, Env>,
+    handler: InteractionHandler<APIMessageComponentInteraction, Env, CustomIdState<Fields>>,
+  ): this;
+  public component(customId: CustomIdMatcher, handler: InteractionHandler<APIMessageComponentInteraction, Env>): this;
+  public component(
+    customId: CustomIdMatcher | CustomIdCodec<CustomIdFields, Env>,
+    handler: InteractionHandler<APIMessageComponentInteraction, Env, never>,
+  ): this {
+    // The state a handler receives is the one its matcher produces, which is not tracked per route
+    this.components.push({ matcher: customId, handler: handler as InteractionHandler<APIMessageComponentInteraction, Env, unknown> });
+    return this;
+  }
+
+  /**
+   * Handles modal submissions like `component` handles components. With a `ModalDefinition`,
+   * passes the submitted values as `context.state` and answers invalid ones with the errors.
+   */
+  public modal<const Fields extends ModalFieldDefinitions>(
+    definition: ModalDefinition<Fields>,
+    handler: InteractionHandler<APIModalSubmitInteraction, Env, ModalValues<Fields>>,
+  ): this;
+  public modal<const Fields extends CustomIdFields>(
+    codec: CustomIdCodec<Fields, Env>,
+    handler: InteractionHandler<APIModalSubmitInteraction, Env, CustomIdState<Fields>>,
+  ): this;
+  public modal(customId: CustomIdMatcher, handler: InteractionHandler<APIModalSubmitInteraction, Env>): this;
+  public modal(
+    customId: CustomIdMatcher | CustomIdCodec<CustomIdFields, Env> | ModalDefinition,
+    handler: InteractionHandler<APIModalSubmitInteraction, Env, never>,
+  ): this {
+    this.modals.push({ matcher: customId, handler: handler as InteractionHandler<APIModalSubmitInteraction, Env, unknown> });
+    return this;
+  }
+
+  /**
+   * Resolves the response for an interaction, or `null` when no handler is registered for it
+   */
+  public async handle(
+    interaction: APIInteraction,
+    context: InteractionRouterContext<Env>,
+  ): Promise<CreateInteractionResponseOptions | null> {
+    switch (interaction.type) {
+      case InteractionType.Ping:
+        return { type: InteractionResponseType.Pong };
+      case InteractionType.ApplicationCommand:
+        switch (interaction.data.type) {
+          case ApplicationCommandType.ChatInput: {
+            const chatInput = interaction as APIChatInputApplicationCommandInteraction;
+            const handler = this.findCommand(this.commands, chatInput.data.name, chatInput.data.options);
+            return handler ? this.run(handler, chatInput, context, null) : null;
+          }
+          case ApplicationCommandType.User: {
+            const handler = this.userCommands.get(interaction.data.name);
+            return handler ? this.run(handler, interaction as APIUserApplicationCommandInteraction, context, null) : null;
+          }
+          case ApplicationCommandType.Message: {
+            const handler = this.messageCommands.get(interaction.data.name);
+            return handler ? this.run(handler, interaction as APIMessageApplicationCommandInteraction, context, null) : null;
+          }
+          default:
+            return null;
+        }
+      case InteractionType.ApplicationCommandAutocomplete: {
+        const handler = this.findCommand(this.autocompletes, interaction.data.name, interaction.data.options);
+        return handler ? this.run(handler, interaction, context, null) : null;
+      }
+      case InteractionType.MessageComponent:
+        return this.dispatchCustomId(this.components, interaction, context);
+      case InteractionType.ModalSubmit:
+        return this.dispatchCustomId(this.modals, interaction, context);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Verifies an interaction request and answers it with the response of its handler.
+   * Responds with 401 to invalid signatures and 404 when no handler is registered.
+   */
+  public async fetch(request: Request, publicKey: string, context: InteractionRouterContext<Env>): Promise<Response> {
+    const result = await verifyInteractionRequest(request, publicKey);
+    if (!result.valid) {
+      return new Response('Bad request signature', { status: 401 });
+    }
+
+    const response = await this.handle(result.interaction, context);
+    if (!response) {
+      return new Response('Unknown interaction', { status: 404 });
+    }
+
+    return toResponse(response);
+  }
+
+  private findCommand<Handler>(
+    handlers: Map<string, Handler>,
+    name: string,
+    options: APIApplicationCommandInteractionDataOption[] | undefined,
+  ): Handler | undefined {
+    const path = resolveCommandPath(name, options);
+
+    // The most specific handler wins, e.g. `admin ban` before `admin`
+    for (let length = path.length; length > 0; length--) {
+      const handler = handlers.get(path.slice(0, length).join(' '));
+      if (handler) {
+        return handler;
+      }
+    }
+
+    return undefined;
+  }
+
+  private async dispatchCustomId<Raw extends APIMessageComponentInteraction | APIModalSubmitInteraction>(
+    routes: CustomIdRoute<Raw, Env>[],
+    interaction: Raw,
+    context: InteractionRouterContext<Env>,
+  ): Promise<CreateInteractionResponseOptions | null> {
+    const customId = interaction.data.custom_id;
+
+    for (const { matcher, handler } of routes) {
+      if (matcher instanceof ModalDefinition) {
+        if (!matcher.matches(customId) || interaction.type !== InteractionType.ModalSubmit) {
+          continue;
+        }
+
+        const result = matcher.parse(interaction as APIModalSubmitInteraction);
+        return result.valid
+          ? this.run(handler, interaction, context, null, result.values)
+          : matcher.errorResponse(result.errors);
+      }
+
+      if (matcher instanceof CustomIdCodec) {
+        if (!matcher.matches(customId)) {
+          continue;
+        }
+
+        // Stale or tampered custom ids are answered instead of failing the interaction
+        const result = await matcher.decode(customId, context.env);
+        if (!result.valid) {
+          return {
+            type: InteractionResponseType.ChannelMessageWithSource,
+            data: { content: matcher.invalidMessage, flags: MessageFlags.Ephemeral },
+          };
+        }
+        return this.run(handler, interaction, context, null, result.state);
+      }
+
+      if (typeof matcher === 'string') {
+        if (matcher === customId) {
+          return this.run(handler, interaction, context, null);
+        }
+        continue;
+      }
+
+      matcher.lastIndex = 0;
+      const match = matcher.exec(customId);
+      if (match) {
+        return this.run(handler, interaction, context, match);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Runs a handler, taking the initial response it returned or sent through the interaction
+   */
+  private async run<Raw extends APIInteraction, State = undefined>(
+    handler: InteractionHandler<Raw, Env, State>,
+    raw: Raw,
+    context: InteractionRouterContext<Env>,
+    match: RegExpExecArray | null,
+    state?: State,
+  ): Promise<CreateInteractionResponseOptions> {
+    let initialResponse: CreateInteractionResponseOptions | undefined;
+    const interaction = new Interaction(context.api, raw, {
+      respond: (response) => {
+        initialResponse = response;
+      },
+    });
+
+    const response = (await handler(interaction, { ...context, match, state: state as State })) ?? initialResponse;
+    if (!response) {
+      throw new Error(`The handler for interaction ${raw.id} neither returned nor sent a response`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Serializes an interaction response for the HTTP reply, as multipart form data when it has files
+ */
+export async function toResponse({ files, ...body }: CreateInteractionResponseOptions): Promise<Response> {
+  if (files?.length) {
+    return new Response(await createFormData(files, body, DefaultRestOptions.maxUploadSize));
+  }
+
+  return new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function resolveCommandPath(
+  name: string,
+  options: APIApplicationCommandInteractionDataOption[] | undefined,
+): string[] {
+  const path = [name];
+  let current = options;
+
+  while (current?.length === 1) {
+    const [option] = current;
+    if (option.type !== ApplicationCommandOptionType.SubcommandGroup && option.type !== ApplicationCommandOptionType.Subcommand) {
+      break;
+    }
+
+    path.push(option.name);
+    current = 'options' in option ? option.options : undefined;
+  }
+
+  return path;
+}
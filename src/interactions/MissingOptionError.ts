@@ -0,0 +1,18 @@
+/**
+ * Thrown when a required option is absent from an interaction, usually because the
+ * registered command is out of date with the definition it is read with
+ */
+export class MissingOptionError extends Error {
+  public readonly name = 'MissingOptionError';
+
+  /**
+   * @param optionName - The name of the missing option
+   * @param commandName - The full name of the command, including subcommands
+   */
+  public constructor(
+    public readonly optionName: string,
+    public readonly commandName: string,
+  ) {
+    super(`Required option "${optionName}" was not provided to /${commandName}`);
+  }
+}
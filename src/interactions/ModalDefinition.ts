@@ -0,0 +1,179 @@
+import { InteractionResponseType, MessageFlags, TextInputStyle } from 'discord-api-types/v10';
+import type { APIModalInteractionResponseCallbackData, APIModalSubmitInteraction } from 'discord-api-types/v10';
+import type { CreateInteractionResponseOptions } from '../api/index.js';
+import { ModalBuilder, TextInputBuilder } from '../builders/modals.js';
+
+export interface ModalFieldDefinition {
+  label: string;
+  /** Defaults to `TextInputStyle.Short` */
+  style?: TextInputStyle;
+  placeholder?: string;
+  /** Whether the field has to be filled in, defaults to `true` as in Discord */
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  /** Pre-filled value, can be overridden per `render` */
+  value?: string;
+  /** Further checks on a filled in value, returning an error message when it is invalid */
+  validate?: (value: string) => string | void;
+}
+
+export type ModalFieldDefinitions = Readonly<Record<string, ModalFieldDefinition>>;
+
+export type ModalValues<Fields extends ModalFieldDefinitions> = {
+  -readonly [Name in keyof Fields]: Fields[Name] extends { required: false } ? string | undefined : string;
+};
+
+export interface ModalFieldError {
+  /** The custom id of the text input */
+  field: string;
+  label: string;
+  message: string;
+}
+
+export type ModalParseResult<Values> =
+  | { valid: true; values: Values }
+  | { valid: false; errors: ModalFieldError[] };
+
+export interface ModalDefinitionOptions<Fields extends ModalFieldDefinitions> {
+  title: string;
+  /** The text inputs keyed by custom id, shown in the order they are listed */
+  fields: Fields;
+  /** Content of the ephemeral reply to invalid submissions, defaults to a list of the errors */
+  errorMessage?: (errors: ModalFieldError[]) => string;
+}
+
+/**
+ * Describes a modal once, to both show it and read its submission back as typed values
+ *
+ * Discord checks `required`, `minLength` and `maxLength` in the client already, but
+ * submissions are checked again along with `validate`. Values are trimmed, and optional
+ * fields left empty are `undefined`. Register the definition with `InteractionRouter#modal`
+ * to receive the values in `context.state`; invalid submissions are answered with an
+ * ephemeral reply listing the errors.
+ *
+ * @example
+ * ```ts
+ * const feedback = new ModalDefinition('feedback', {
+ *   title: 'Feedback',
+ *   fields: {
+ *     subject: { label: 'Subject', maxLength: 100 },
+ *     message: { label: 'Message', style: TextInputStyle.Paragraph, minLength: 10 },
+ *     email: { label: 'Email', required: false, validate: (value) => value.includes('@') ? undefined : 'must be an email address' },
+ *   },
+ * });
+ *
+ * router
+ *   .command('feedback', (interaction) => interaction.showModal(feedback.render()))
+ *   .modal(feedback, (interaction, { state }) => {
+ *     state.email; // string | undefined
+ *   });
+ * ```
+ */
+export class ModalDefinition<const Fields extends ModalFieldDefinitions = ModalFieldDefinitions> {
+  public constructor(
+    public readonly customId: string,
+    private readonly options: ModalDefinitionOptions<Fields>,
+  ) {}
+
+  /**
+   * Builds the modal for `Interaction#showModal`
+   *
+   * @param values - Pre-filled values, e.g. the current ones when editing something
+   * @throws {BuilderValidationError} When the modal exceeds Discord's limits
+   */
+  public render(values: Partial<Record<keyof Fields & string, string>> = {}): APIModalInteractionResponseCallbackData {
+    const modal = new ModalBuilder().setCustomId(this.customId).setTitle(this.options.title);
+
+    for (const [name, field] of Object.entries(this.options.fields)) {
+      const input = new TextInputBuilder()
+        .setCustomId(name)
+        .setLabel(field.label)
+        .setStyle(field.style ?? TextInputStyle.Short)
+        .setRequired(field.required ?? true);
+
+      const value = values[name as keyof Fields & string] ?? field.value;
+      if (value !== undefined) {
+        input.setValue(value);
+      }
+      if (field.placeholder !== undefined) {
+        input.setPlaceholder(field.placeholder);
+      }
+      if (field.minLength !== undefined) {
+        input.setMinLength(field.minLength);
+      }
+      if (field.maxLength !== undefined) {
+        input.setMaxLength(field.maxLength);
+      }
+
+      modal.addComponents(input);
+    }
+
+    return modal.toJSON();
+  }
+
+  /**
+   * Whether a modal submission belongs to this definition
+   */
+  public matches(customId: string): boolean {
+    return customId === this.customId;
+  }
+
+  /**
+   * Reads the submitted values, checking them against the field definitions
+   */
+  public parse(interaction: APIModalSubmitInteraction): ModalParseResult<ModalValues<Fields>> {
+    const submitted = new Map<string, string>();
+    for (const row of interaction.data.components) {
+      for (const component of row.components) {
+        submitted.set(component.custom_id, component.value);
+      }
+    }
+
+    const values: Record<string, string | undefined> = {};
+    const errors: ModalFieldError[] = [];
+
+    for (const [name, field] of Object.entries(this.options.fields)) {
+      const value = submitted.get(name)?.trim() ?? '';
+      const message = validateField(field, value);
+
+      if (message) {
+        errors.push({ field: name, label: field.label, message });
+      } else {
+        values[name] = value || undefined;
+      }
+    }
+
+    return errors.length
+      ? { valid: false, errors }
+      : { valid: true, values: values as ModalValues<Fields> };
+  }
+
+  /**
+   * The ephemeral reply to a submission with errors
+   */
+  public errorResponse(errors: ModalFieldError[]): CreateInteractionResponseOptions {
+    const content = this.options.errorMessage?.(errors)
+      ?? ['Please check your input:', ...errors.map(({ label, message }) => `- **${label}** ${message}`)].join('\n');
+
+    return {
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content, flags: MessageFlags.Ephemeral },
+    };
+  }
+}
+
+function validateField(field: ModalFieldDefinition, value: string): string | undefined {
+  if (!value) {
+    return field.required ?? true ? 'is required' : undefined;
+  }
+
+  if (field.minLength !== undefined && value.length < field.minLength) {
+    return `must be at least ${field.minLength} characters long`;
+  }
+  if (field.maxLength !== undefined && value.length > field.maxLength) {
+    return `must be at most ${field.maxLength} characters long`;
+  }
+
+  return field.validate?.(value) || undefined;
+}
@@ -0,0 +1,190 @@
+import { ButtonStyle } from 'discord-api-types/v10';
+import type {
+  APIActionRowComponent,
+  APIButtonComponent,
+  APIEmbed,
+  APIMessageComponentInteraction,
+  RESTPostAPIChannelMessageResult,
+  Snowflake,
+} from 'discord-api-types/v10';
+import type { API } from '../api/index.js';
+import { ActionRowBuilder, ButtonBuilder } from '../builders/components.js';
+import type { Awaitable } from '../types.js';
+import { CustomIdCodec, type CustomIdState } from './customId.js';
+import type { CustomIdStore } from './CustomIdStore.js';
+import type { Interaction } from './Interaction.js';
+import type { InteractionHandler } from './InteractionRouter.js';
+
+export interface PaginatorPageRequest<Env = unknown> {
+  /** Zero-based index of the page */
+  page: number;
+  /** The key the paginated message was sent with, e.g. a search query */
+  key: string;
+  env: Env;
+}
+
+export interface PaginatorPage {
+  embed: APIEmbed;
+  /** The number of pages, which may change between requests */
+  total: number;
+}
+
+/**
+ * The pages as embeds, or a function fetching one page at a time, e.g. from D1 with an offset
+ */
+export type PaginatorSource<Env = unknown> =
+  | readonly APIEmbed[]
+  | ((request: PaginatorPageRequest<Env>) => Awaitable<PaginatorPage>);
+
+export interface PaginatorOptions<Env = unknown> {
+  pages: PaginatorSource<Env>;
+  /** Labels of the buttons, default to `◀` and `▶` */
+  labels?: { previous?: string; next?: string };
+  /** The embed footer showing the position, defaults to `Page 1/12` */
+  footer?: (page: number, total: number) => string;
+  /** Signs the button custom ids, see `CustomIdCodecOptions#secret` */
+  secret?: string | ((env: Env) => string);
+  /** Holds keys too long for the button custom ids, see `CustomIdCodecOptions#store` */
+  store?: CustomIdStore | ((env: Env) => CustomIdStore);
+}
+
+export interface PaginatorRenderOptions<Env = unknown> {
+  /** Passed to the page source, to page through one of many lists */
+  key?: string;
+  /** The Worker's `env`, needed when the source, `secret` or `store` use it */
+  env?: Env;
+}
+
+export interface PaginatedMessage {
+  embeds: APIEmbed[];
+  components: APIActionRowComponent<APIButtonComponent>[];
+}
+
+const paginatorFields = { page: 'integer', key: 'string' } as const;
+
+export type PaginatorState = CustomIdState<typeof paginatorFields>;
+
+/**
+ * Sends messages showing one page at a time, with buttons to go to the previous and next page
+ *
+ * The buttons carry the page and key in their custom ids, so any Worker invocation can render
+ * the page they point to without remembering the message. Register `handler` for `codec`
+ * with `InteractionRouter#component` to update the message when a button is clicked.
+ *
+ * @example
+ * ```ts
+ * const results = new Paginator<Env>('results', {
+ *   pages: async ({ page, key, env }) => {
+ *     const { items, count } = await searchItems(env.DB, key, { offset: page * 10, limit: 10 });
+ *     return { embed: { title: key, description: items.join('\n') }, total: Math.ceil(count / 10) };
+ *   },
+ * });
+ *
+ * router
+ *   .command('search', (interaction, { env }) => results.reply(interaction, { key: interaction.getString('query', true), env }))
+ *   .component(results.codec, results.handler);
+ * ```
+ */
+export class Paginator<Env = unknown> {
+  /** Creates and reads the custom ids of the buttons */
+  public readonly codec: CustomIdCodec<typeof paginatorFields, Env>;
+
+  public constructor(
+    name: string,
+    private readonly options: PaginatorOptions<Env>,
+  ) {
+    this.codec = new CustomIdCodec(name, {
+      fields: paginatorFields,
+      secret: options.secret,
+      store: options.store,
+      invalidMessage: 'This list is no longer available.',
+    });
+  }
+
+  /**
+   * Updates the message to the page of the clicked button
+   */
+  public readonly handler: InteractionHandler<APIMessageComponentInteraction, Env, PaginatorState> = async (
+    interaction,
+    { env, state },
+  ) => {
+    await interaction.update(await this.render(state.page, { key: state.key, env }));
+  };
+
+  /**
+   * Builds the message content for a page. Pages past the end show the last page instead.
+   */
+  public async render(page = 0, { key = '', env }: PaginatorRenderOptions<Env> = {}): Promise<PaginatedMessage> {
+    let { embed, total } = await this.fetch(Math.max(page, 0), key, env);
+
+    // The list may have shrunk since the buttons were created
+    if (page >= total && total > 0) {
+      page = total - 1;
+      ({ embed, total } = await this.fetch(page, key, env));
+    }
+    page = Math.max(Math.min(page, total - 1), 0);
+
+    const position = (this.options.footer ?? defaultFooter)(page, Math.max(total, 1));
+    const footer = embed.footer?.text ? `${embed.footer.text} • ${position}` : position;
+
+    return {
+      embeds: [{ ...embed, footer: { ...embed.footer, text: footer } }],
+      // Both buttons would have the same custom id, which Discord rejects
+      components: total > 1 ? [await this.renderButtons(page, total, key, env)] : [],
+    };
+  }
+
+  /**
+   * Sends the first page to a channel
+   */
+  public async send(
+    api: API,
+    channelId: Snowflake,
+    options?: PaginatorRenderOptions<Env>,
+  ): Promise<RESTPostAPIChannelMessageResult> {
+    return api.channels.createMessage(channelId, await this.render(0, options));
+  }
+
+  /**
+   * Replies to an interaction with the first page
+   */
+  public async reply(
+    interaction: Interaction,
+    { ephemeral, ...options }: PaginatorRenderOptions<Env> & { ephemeral?: boolean } = {},
+  ): Promise<void> {
+    await interaction.reply({ ...await this.render(0, options), ephemeral });
+  }
+
+  private async fetch(page: number, key: string, env: Env | undefined): Promise<PaginatorPage> {
+    const { pages } = this.options;
+    if (typeof pages === 'function') {
+      return pages({ page, key, env: env as Env });
+    }
+
+    return { embed: pages[Math.min(page, pages.length - 1)] ?? {}, total: pages.length };
+  }
+
+  private async renderButtons(
+    page: number,
+    total: number,
+    key: string,
+    env: Env | undefined,
+  ): Promise<APIActionRowComponent<APIButtonComponent>> {
+    const previous = new ButtonBuilder()
+      .setStyle(ButtonStyle.Secondary)
+      .setLabel(this.options.labels?.previous ?? '◀')
+      .setCustomId(await this.codec.encode({ page: Math.max(page - 1, 0), key }, env))
+      .setDisabled(page === 0);
+    const next = new ButtonBuilder()
+      .setStyle(ButtonStyle.Secondary)
+      .setLabel(this.options.labels?.next ?? '▶')
+      .setCustomId(await this.codec.encode({ page: Math.min(page + 1, total - 1), key }, env))
+      .setDisabled(page === total - 1);
+
+    return new ActionRowBuilder<APIButtonComponent>().addComponents(previous, next).toJSON();
+  }
+}
+
+function defaultFooter(page: number, total: number): string {
+  return `Page ${page + 1}/${total}`;
+}
@@ -0,0 +1,247 @@
+import type { KVNamespace, KVNamespaceListKey } from '@cloudflare/workers-types';
+import type {
+  APIApplicationCommandAutocompleteInteraction,
+  APIApplicationCommandOptionChoice,
+  Locale,
+} from 'discord-api-types/v10';
+import type { Awaitable } from '../types.js';
+import type { Interaction } from './Interaction.js';
+import type { InteractionHandler } from './InteractionRouter.js';
+
+/**
+ * A choice returned by a source. Plain strings and numbers are used as both name and value.
+ */
+export type AutocompleteChoiceInput = string | number | APIApplicationCommandOptionChoice;
+
+export interface AutocompleteRequest<Env = unknown> {
+  /** What the user has typed so far into the focused option */
+  query: string;
+  /** The name of the focused option */
+  option: string;
+  /** The language of the user, used to pick choice name localizations */
+  locale: Locale | undefined;
+  interaction: Interaction<APIApplicationCommandAutocompleteInteraction>;
+  env: Env;
+  /** Aborted when the source runs out of time, pass it on to `fetch` calls */
+  signal: AbortSignal;
+}
+
+/**
+ * Candidate choices for an option: a fixed list, or a function looking them up for the query
+ */
+export type AutocompleteSource<Env = unknown> =
+  | readonly AutocompleteChoiceInput[]
+  | ((request: AutocompleteRequest<Env>) => Awaitable<readonly AutocompleteChoiceInput[]>);
+
+export interface AutocompleteOptions<Env = unknown> {
+  /**
+   * Milliseconds sources may take before no choices are sent, leaving room in the
+   * 3 second response window. Defaults to 2500.
+   */
+  timeout?: number;
+  /**
+   * Whether to filter and order choices by how well their name matches the query.
+   * Disable for sources that already return the best matches in order, such as a search API.
+   * Defaults to `true`.
+   */
+  rank?: boolean;
+  /** Receives errors thrown by sources, e.g. to report them, as the user only sees no choices */
+  onError?: (error: unknown, request: AutocompleteRequest<Env>) => void;
+}
+
+export interface RankChoicesOptions {
+  /** Picks the name localization shown to, and matched for, this locale */
+  locale?: Locale;
+  /** Whether to filter and order by match quality, otherwise choices are only truncated */
+  rank?: boolean;
+}
+
+/** The most choices Discord accepts in an autocomplete response */
+export const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+const MAX_CHOICE_LENGTH = 100;
+const DEFAULT_TIMEOUT = 2_500;
+
+/**
+ * Creates a router handler answering autocomplete interactions with choices from the source
+ * of the focused option. Sources that throw or run out of time answer with no choices, so
+ * the user can keep typing.
+ *
+ * @example
+ * ```ts
+ * router.autocomplete('weather', createAutocompleteHandler({
+ *   city: ['Tokyo', 'Osaka', 'Kyoto'],
+ *   station: async ({ query, signal }) => searchStations(query, { signal }),
+ *   country: kvPrefixSource((env) => env.COUNTRIES),
+ * }));
+ * ```
+ */
+export function createAutocompleteHandler<Env = unknown>(
+  sources: Record<string, AutocompleteSource<Env>>,
+  { timeout = DEFAULT_TIMEOUT, rank = true, onError }: AutocompleteOptions<Env> = {},
+): InteractionHandler<APIApplicationCommandAutocompleteInteraction, Env> {
+  return async (interaction, { env }) => {
+    const focused = interaction.getFocused();
+    const source = focused ? sources[focused.name] : undefined;
+    if (!focused || !source) {
+      await interaction.respondAutocomplete([]);
+      return;
+    }
+
+    const query = String(focused.value).trim();
+    const locale = interaction.raw.locale;
+    const choices = await resolveSource(source, { query, option: focused.name, locale, interaction, env }, timeout, onError);
+
+    await interaction.respondAutocomplete(rankChoices(choices, query, { locale, rank }));
+  };
+}
+
+/**
+ * Lists the keys of a KV namespace starting with the query, for large sets of choices. KV
+ * only matches prefixes case-sensitively, so store keys in the form users will type them,
+ * e.g. lowercased with `lowercase: true`.
+ *
+ * A key's metadata can hold a display name as `{ name }`, the key itself is the value.
+ *
+ * @param namespace - The namespace, or a function picking it from the Worker's `env`
+ */
+export function kvPrefixSource<Env = unknown>(
+  namespace: KVNamespace | ((env: Env) => KVNamespace),
+  {
+    prefix = '',
+    lowercase = false,
+  }: {
+    /** Prefix shared by the keys of this source, not part of the choice values */
+    prefix?: string;
+    /** Lowercases the query before listing */
+    lowercase?: boolean;
+  } = {},
+): AutocompleteSource<Env> {
+  return async ({ query, env }) => {
+    const kv = typeof namespace === 'function' ? namespace(env) : namespace;
+    const { keys } = await kv.list<{ name?: string }>({
+      prefix: prefix + (lowercase ? query.toLowerCase() : query),
+      limit: MAX_AUTOCOMPLETE_CHOICES,
+    });
+
+    return keys.map((key: KVNamespaceListKey<{ name?: string }>) => {
+      const value = key.name.slice(prefix.length);
+      return { name: key.metadata?.name ?? value, value };
+    });
+  };
+}
+
+/**
+ * Turns source choices into ones Discord accepts: localized, ranked against the query, at most
+ * 25 of them and names of at most 100 characters. Choices with longer string values are
+ * dropped, as truncating them would change what is submitted.
+ */
+export function rankChoices(
+  choices: readonly AutocompleteChoiceInput[],
+  query: string,
+  { locale, rank = true }: RankChoicesOptions = {},
+): APIApplicationCommandOptionChoice[] {
+  const candidates = choices
+    .map((choice) => {
+      const { name, name_localizations, value } = typeof choice === 'object' ? choice : { name: String(choice), value: choice };
+      return { name: (locale && name_localizations?.[locale]) || name, value };
+    })
+    .filter(({ name, value }) => name.length > 0 && (typeof value !== 'string' || value.length <= MAX_CHOICE_LENGTH));
+
+  const ranked = rank && query
+    ? candidates
+      .map((choice, index) => ({ choice, index, score: fuzzyScore(choice.name, query) }))
+      .filter(({ score }) => score > 0)
+      // Equal scores keep the order of the source
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ choice }) => choice)
+    : candidates;
+
+  return ranked.slice(0, MAX_AUTOCOMPLETE_CHOICES).map(({ name, value }) => ({ name: truncate(name), value }));
+}
+
+/**
+ * Scores how well `text` matches `query`, ignoring case and accents: exact matches score
+ * highest, then prefixes, word prefixes, substrings and finally letters in order.
+ * Returns `0` when there is no match.
+ */
+export function fuzzyScore(text: string, query: string): number {
+  const haystack = normalize(text);
+  const needle = normalize(query);
+  if (!needle) {
+    return 1;
+  }
+
+  // Shorter texts score higher within a tier, as more of them was typed
+  const coverage = needle.length / haystack.length;
+
+  if (haystack === needle) {
+    return 1000;
+  }
+  if (haystack.startsWith(needle)) {
+    return 800 + coverage * 100;
+  }
+
+  if (haystack.includes(needle)) {
+    const wordStart = new RegExp(`[\\s\\-_./]${escapeRegExp(needle)}`).test(haystack);
+    return (wordStart ? 600 : 400) + coverage * 100;
+  }
+
+  let position = -1;
+  let first = -1;
+  for (const character of needle) {
+    position = haystack.indexOf(character, position + 1);
+    if (position === -1) {
+      return 0;
+    }
+    if (first === -1) {
+      first = position;
+    }
+  }
+
+  // Letters closer together score higher
+  return 100 + needle.length / (position - first + 1) * 100;
+}
+
+async function resolveSource<Env>(
+  source: AutocompleteSource<Env>,
+  request: Omit<AutocompleteRequest<Env>, 'signal'>,
+  timeout: number,
+  onError: AutocompleteOptions<Env>['onError'],
+): Promise<readonly AutocompleteChoiceInput[]> {
+  if (typeof source !== 'function') {
+    return source;
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<readonly AutocompleteChoiceInput[]>((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve([]);
+    }, timeout);
+  });
+
+  const sourceRequest = { ...request, signal: controller.signal };
+  try {
+    return await Promise.race([Promise.resolve(source(sourceRequest)), timedOut]);
+  } catch (error) {
+    onError?.(error, sourceRequest);
+    return [];
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function truncate(name: string): string {
+  const characters = Array.from(name);
+  return characters.length > MAX_CHOICE_LENGTH ? `${characters.slice(0, MAX_CHOICE_LENGTH - 1).join('')}…` : name;
+}
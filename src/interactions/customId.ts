@@ -0,0 +1,312 @@
+import type { Snowflake } from 'discord-api-types/v10';
+import { importCachedKey, toBase64URL } from '../crypto.js';
+import { CustomIdLengthError } from './CustomIdLengthError.js';
+import type { CustomIdStore } from './CustomIdStore.js';
+
+/**
+ * The type of a state field. A list of strings is an enum, encoded as the index of the value.
+ */
+export type CustomIdField = 'string' | 'integer' | 'number' | 'boolean' | 'snowflake' | readonly string[];
+
+export type CustomIdFields = Readonly<Record<string, CustomIdField>>;
+
+type FieldValue<Field extends CustomIdField> = Field extends 'string'
+  ? string
+  : Field extends 'integer' | 'number'
+    ? number
+    : Field extends 'boolean'
+      ? boolean
+      : Field extends 'snowflake'
+        ? Snowflake
+        : Field extends readonly (infer Value extends string)[]
+          ? Value
+          : never;
+
+export type CustomIdState<Fields extends CustomIdFields> = {
+  -readonly [Name in keyof Fields]: FieldValue<Fields[Name]>;
+};
+
+export interface CustomIdMigration<State> {
+  /** The fields of the earlier version */
+  fields: CustomIdFields;
+  /** Turns state of the earlier version, decoded with its `fields`, into the current one */
+  migrate: (state: Record<string, unknown>) => State;
+}
+
+export interface CustomIdCodecOptions<Fields extends CustomIdFields, Env = unknown> {
+  /** The state fields, encoded in the order they are listed */
+  fields: Fields;
+  /**
+   * Increase this when changing `fields`. Custom ids of other versions are rejected, unless a
+   * migration for them is listed in `migrations`.
+   */
+  version?: number;
+  /** Decoders for earlier versions, for components still on older messages */
+  migrations?: Record<number, CustomIdMigration<CustomIdState<Fields>>>;
+  /**
+   * Signs custom ids with HMAC-SHA256, so users cannot craft state. Use a Worker secret.
+   */
+  secret?: string | ((env: Env) => string);
+  /**
+   * Holds state too large for the 100 characters of a `custom_id`, which then only carries
+   * a random key
+   */
+  store?: CustomIdStore | ((env: Env) => CustomIdStore);
+  /** Ephemeral reply an `InteractionRouter` sends for custom ids that cannot be decoded */
+  invalidMessage?: string;
+}
+
+export type CustomIdDecodeFailure = 'unknown_version' | 'invalid_signature' | 'expired' | 'malformed';
+
+export type CustomIdDecodeResult<State> =
+  | { valid: true; state: State }
+  | { valid: false; reason: CustomIdDecodeFailure };
+
+/** The most characters Discord accepts in a `custom_id` */
+export const MAX_CUSTOM_ID_LENGTH = 100;
+
+const SIGNATURE_BYTES = 8;
+const STORE_KEY_BYTES = 9;
+const STORED_MARKER = '~';
+
+/**
+ * Packs typed state into component `custom_id`s and reads it back, for stateless Workers
+ *
+ * Custom ids look like `name:version:fields`, with fields separated by `;` and compacted:
+ * integers, enum indexes and snowflakes in base 36, booleans as `1` or `0`. Register the codec
+ * with `InteractionRouter#component` to receive the decoded state in `context.state`.
+ *
+ * @example
+ * ```ts
+ * const page = new CustomIdCodec('page', {
+ *   fields: { page: 'integer', user: 'snowflake', sort: ['new', 'top'] },
+ *   secret: (env: Env) => env.CUSTOM_ID_SECRET,
+ * });
+ *
+ * const customId = await page.encode({ page: 2, user: interaction.user!.id, sort: 'top' }, env);
+ *
+ * router.component(page, (interaction, { state }) => {
+ *   state.page; // number
+ * });
+ * ```
+ */
+export class CustomIdCodec<const Fields extends CustomIdFields = CustomIdFields, Env = unknown> {
+  public readonly version: number;
+
+  public constructor(
+    public readonly name: string,
+    private readonly options: CustomIdCodecOptions<Fields, Env>,
+  ) {
+    if (!name || name.includes(':')) {
+      throw new TypeError(`Custom id codec names must be non-empty and cannot contain ":", got "${name}"`);
+    }
+    this.version = options.version ?? 1;
+  }
+
+  /** The reply for custom ids that cannot be decoded */
+  public get invalidMessage(): string {
+    return this.options.invalidMessage ?? 'This component is no longer valid.';
+  }
+
+  /**
+   * Whether `customId` was created by this codec, of any version
+   */
+  public matches(customId: string): boolean {
+    return customId.startsWith(`${this.name}:`);
+  }
+
+  /**
+   * @param env - The Worker's `env`, needed when `secret` or `store` are functions
+   * @throws {CustomIdLengthError} When the state does not fit and no store is configured
+   */
+  public async encode(state: CustomIdState<Fields>, env?: Env): Promise<string> {
+    const payload = encodeFields(this.options.fields, state);
+    const header = `${this.name}:${this.version}:`;
+
+    const secret = this.resolve(this.options.secret, env);
+    const customId = secret
+      ? `${header}${payload}:${await sign(secret, header + payload)}`
+      : header + payload;
+
+    if (customId.length <= MAX_CUSTOM_ID_LENGTH) {
+      return customId;
+    }
+
+    const store = this.resolve(this.options.store, env);
+    if (!store) {
+      throw new CustomIdLengthError(customId, MAX_CUSTOM_ID_LENGTH);
+    }
+
+    // The key is random, so it does not need a signature to be unguessable
+    const key = toBase64URL(crypto.getRandomValues(new Uint8Array(STORE_KEY_BYTES)));
+    await store.put(key, payload);
+
+    const storedId = `${header}${STORED_MARKER}${key}`;
+    if (storedId.length > MAX_CUSTOM_ID_LENGTH) {
+      throw new CustomIdLengthError(storedId, MAX_CUSTOM_ID_LENGTH);
+    }
+    return storedId;
+  }
+
+  /**
+   * Reads the state from a custom id created by `encode`, checking its signature and
+   * migrating state of earlier versions
+   *
+   * @param env - The Worker's `env`, needed when `secret` or `store` are functions
+   */
+  public async decode(customId: string, env?: Env): Promise<CustomIdDecodeResult<CustomIdState<Fields>>> {
+    if (!this.matches(customId)) {
+      return { valid: false, reason: 'malformed' };
+    }
+
+    const rest = customId.slice(this.name.length + 1);
+    const separator = rest.indexOf(':');
+    const version = Number(rest.slice(0, separator));
+    const headerLength = this.name.length + separator + 2;
+    let body = rest.slice(separator + 1);
+    if (separator === -1 || !Number.isInteger(version)) {
+      return { valid: false, reason: 'malformed' };
+    }
+
+    const migration = version === this.version ? undefined : this.options.migrations?.[version];
+    if (version !== this.version && !migration) {
+      return { valid: false, reason: 'unknown_version' };
+    }
+
+    if (body.startsWith(STORED_MARKER)) {
+      const store = this.resolve(this.options.store, env);
+      const payload = store ? await store.get(body.slice(STORED_MARKER.length)) : null;
+      if (payload === null) {
+        return { valid: false, reason: 'expired' };
+      }
+      body = payload;
+    } else {
+      const secret = this.resolve(this.options.secret, env);
+      if (secret) {
+        const signatureStart = body.lastIndexOf(':');
+        const signed = customId.slice(0, headerLength + signatureStart);
+        if (signatureStart === -1 || !timingSafeEqual(body.slice(signatureStart + 1), await sign(secret, signed))) {
+          return { valid: false, reason: 'invalid_signature' };
+        }
+        body = body.slice(0, signatureStart);
+      }
+    }
+
+    const state = decodeFields(migration?.fields ?? this.options.fields, body);
+    if (!state) {
+      return { valid: false, reason: 'malformed' };
+    }
+
+    return { valid: true, state: migration ? migration.migrate(state) : state as CustomIdState<Fields> };
+  }
+
+  private resolve<T>(value: T | ((env: Env) => T) | undefined, env: Env | undefined): T | undefined {
+    return typeof value === 'function' ? (value as (env: Env) => T)(env as Env) : value;
+  }
+}
+
+function encodeFields(fields: CustomIdFields, state: Record<string, unknown>): string {
+  return Object.entries(fields)
+    .map(([name, field]) => {
+      const value = state[name];
+      const encoded = encodeField(field, value);
+      if (encoded === null) {
+        throw new TypeError(`Custom id field "${name}" cannot be ${JSON.stringify(value)}`);
+      }
+      return encoded;
+    })
+    .join(';');
+}
+
+function encodeField(field: CustomIdField, value: unknown): string | null {
+  if (typeof field !== 'string') {
+    const index = field.indexOf(value as string);
+    return index === -1 ? null : index.toString(36);
+  }
+
+  switch (field) {
+    case 'string':
+      return typeof value === 'string' ? value.replace(/[%:;~]/g, (character) => `%${character.charCodeAt(0).toString(16).toUpperCase()}`) : null;
+    case 'integer':
+      return Number.isSafeInteger(value) ? (value as number).toString(36) : null;
+    case 'number':
+      return Number.isFinite(value) ? String(value) : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? value ? '1' : '0' : null;
+    case 'snowflake':
+      return typeof value === 'string' && /^\d+$/.test(value) ? BigInt(value).toString(36) : null;
+  }
+}
+
+function decodeFields(fields: CustomIdFields, payload: string): Record<string, unknown> | null {
+  const entries = Object.entries(fields);
+  const values = entries.length ? payload.split(';') : [];
+  if (values.length !== entries.length || (!entries.length && payload)) {
+    return null;
+  }
+
+  const state: Record<string, unknown> = {};
+  for (const [index, [name, field]] of entries.entries()) {
+    const value = decodeField(field, values[index]);
+    if (value === undefined) {
+      return null;
+    }
+    state[name] = value;
+  }
+  return state;
+}
+
+function decodeField(field: CustomIdField, encoded: string): unknown {
+  if (typeof field !== 'string') {
+    return /^[\da-z]+$/.test(encoded) ? field[Number.parseInt(encoded, 36)] : undefined;
+  }
+
+  switch (field) {
+    case 'string':
+      return /%(?![0-9A-F]{2})/.test(encoded) ? undefined : encoded.replace(/%([0-9A-F]{2})/g, (_, code: string) => String.fromCharCode(Number.parseInt(code, 16)));
+    case 'integer':
+      return /^-?[\da-z]+$/.test(encoded) ? Number.parseInt(encoded, 36) : undefined;
+    case 'number': {
+      const value = Number(encoded);
+      return encoded && Number.isFinite(value) ? value : undefined;
+    }
+    case 'boolean':
+      return encoded === '1' ? true : encoded === '0' ? false : undefined;
+    case 'snowflake':
+      return /^[\da-z]+$/.test(encoded) ? parseBase36BigInt(encoded).toString() : undefined;
+  }
+}
+
+// `BigInt` only parses decimal, hex, octal and binary strings
+function parseBase36BigInt(encoded: string): bigint {
+  let value = 0n;
+  for (const character of encoded) {
+    value = value * 36n + BigInt(Number.parseInt(character, 36));
+  }
+  return value;
+}
+
+async function sign(secret: string, data: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await importSecret(secret), new TextEncoder().encode(data));
+  // A truncated MAC keeps custom ids short while still making forgeries impractical
+  return toBase64URL(new Uint8Array(signature, 0, SIGNATURE_BYTES));
+}
+
+async function importSecret(secret: string): Promise<CryptoKey> {
+  return importCachedKey(
+    `HMAC:${secret}`,
+    () => crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+  );
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,139 @@
+import type { APIInteraction } from 'discord-api-types/v10';
+import type { API, CreateInteractionResponseOptions } from '../api/index.js';
+import { Interaction } from './Interaction.js';
+import { toResponse } from './InteractionRouter.js';
+
+export type DeferredTask<Raw extends APIInteraction = APIInteraction> = (
+  interaction: Interaction<Raw>,
+) => Promise<unknown>;
+
+export interface DeferOptions {
+  /** Whether the loading message, and so the reply replacing it, is only visible to the user */
+  ephemeral?: boolean;
+  /** Content the deferred response is edited to when the task throws */
+  errorMessage?: string | ((error: unknown) => string);
+  /**
+   * Receives errors of the task, and of sending the error message, e.g. to report them.
+   * Without it they only show up as the error message.
+   */
+  onError?: (error: unknown, interaction: Interaction) => void;
+}
+
+export interface DeferredInteractionMessage<Data = unknown> {
+  interaction: APIInteraction;
+  /** Whether the deferral was ephemeral, so error replies are too */
+  ephemeral: boolean;
+  data: Data;
+}
+
+const DEFAULT_ERROR_MESSAGE = 'Something went wrong while handling this interaction.';
+
+/**
+ * Defers the reply and finishes `task` after the response was sent, using `ctx.waitUntil` so the
+ * Worker is kept alive for it. A failing task replaces the loading message with an error.
+ *
+ * Returns nothing, the deferral is the initial response of `interaction`, so in an
+ * `InteractionRouter` handler it becomes the HTTP response.
+ */
+export async function deferInteraction<Raw extends APIInteraction>(
+  interaction: Interaction<Raw>,
+  ctx: Pick<ExecutionContext, 'waitUntil'>,
+  task: DeferredTask<Raw>,
+  { ephemeral = false, ...options }: DeferOptions = {},
+): Promise<void> {
+  await interaction.deferReply({ ephemeral });
+  ctx.waitUntil(runTask(interaction, task, { ephemeral, ...options }));
+}
+
+/**
+ * Answers an interaction with a deferred response and finishes `task` in the background,
+ * for Workers that handle interactions without an `InteractionRouter`
+ */
+export async function createDeferredResponse<Raw extends APIInteraction>(
+  api: API,
+  raw: Raw,
+  ctx: Pick<ExecutionContext, 'waitUntil'>,
+  task: DeferredTask<Raw>,
+  options: DeferOptions = {},
+): Promise<Response> {
+  let deferral!: CreateInteractionResponseOptions;
+  const interaction = new Interaction(api, raw, {
+    respond: (response) => {
+      deferral = response;
+    },
+  });
+
+  await deferInteraction(interaction, ctx, task, options);
+  return toResponse(deferral);
+}
+
+/**
+ * Defers the reply and sends the interaction to a Queue, for jobs that may run longer than
+ * a Worker is kept alive after responding. The consumer finishes them with
+ * `processDeferredInteractions` within the 15 minutes the interaction token is valid.
+ */
+export async function deferToQueue<Data>(
+  interaction: Interaction,
+  queue: Queue<DeferredInteractionMessage<Data>>,
+  data: Data,
+  { ephemeral = false }: Pick<DeferOptions, 'ephemeral'> = {},
+): Promise<void> {
+  await interaction.deferReply({ ephemeral });
+  await queue.send({ interaction: interaction.raw, ephemeral, data });
+}
+
+/**
+ * Runs the jobs sent by `deferToQueue` in a Queue consumer. Every message is acknowledged,
+ * failed jobs edit the deferred response with an error instead of being retried.
+ */
+export async function processDeferredInteractions<Data>(
+  batch: MessageBatch<DeferredInteractionMessage<Data>>,
+  api: API,
+  task: (interaction: Interaction, data: Data) => Promise<unknown>,
+  options: Pick<DeferOptions, 'errorMessage' | 'onError'> = {},
+): Promise<void> {
+  await Promise.all(batch.messages.map(async (message) => {
+    const interaction = new Interaction(api, message.body.interaction);
+    interaction.deferred = true;
+
+    await runTask(interaction, (deferred) => task(deferred, message.body.data), {
+      ...options,
+      ephemeral: message.body.ephemeral,
+    });
+    message.ack();
+  }));
+}
+
+async function runTask<Raw extends APIInteraction>(
+  interaction: Interaction<Raw>,
+  task: DeferredTask<Raw>,
+  { ephemeral, errorMessage, onError }: DeferOptions,
+): Promise<void> {
+  try {
+    await task(interaction);
+  } catch (error) {
+    reportError(onError, error, interaction);
+
+    try {
+      const content = typeof errorMessage === 'function'
+        ? errorMessage(error)
+        : errorMessage ?? DEFAULT_ERROR_MESSAGE;
+
+      // The reply may have been sent before the task failed, the error then goes in a follow-up
+      await interaction.reply({ content, ephemeral });
+    } catch (replyError) {
+      reportError(onError, replyError, interaction);
+    }
+  }
+}
+
+/**
+ * Runs the `onError` hook without letting it throw, a rejected `waitUntil` promise would go unnoticed
+ */
+function reportError(onError: DeferOptions['onError'], error: unknown, interaction: Interaction): void {
+  try {
+    onError?.(error, interaction);
+  } catch {
+    // There is nowhere left to report the hook's own failure
+  }
+}
@@ -0,0 +1,12 @@
+export * from './verify.js';
+export * from './Interaction.js';
+export * from './InteractionRouter.js';
+export * from './deferred.js';
+export * from './options.js';
+export * from './MissingOptionError.js';
+export * from './autocomplete.js';
+export * from './customId.js';
+export * from './CustomIdStore.js';
+export * from './CustomIdLengthError.js';
+export * from './ModalDefinition.js';
+export * from './Paginator.js';
@@ -0,0 +1,208 @@
+import { ApplicationCommandOptionType, InteractionType } from 'discord-api-types/v10';
+import type {
+  APIApplicationCommandAutocompleteInteraction,
+  APIApplicationCommandInteractionDataBasicOption,
+  APIApplicationCommandInteractionDataOption,
+  APIAttachment,
+  APIChatInputApplicationCommandInteraction,
+  APIInteractionDataResolved,
+  APIInteractionDataResolvedChannel,
+  APIInteractionDataResolvedGuildMember,
+  APIRole,
+  APIUser,
+} from 'discord-api-types/v10';
+import { MissingOptionError } from './MissingOptionError.js';
+
+/**
+ * The parts of an application command option definition the parser reads, so command
+ * definitions can be passed as they are
+ */
+export interface OptionDefinition {
+  readonly type: ApplicationCommandOptionType;
+  readonly name: string;
+  readonly required?: boolean;
+  readonly choices?: readonly { readonly value: string | number }[];
+  readonly options?: readonly OptionDefinition[];
+}
+
+export interface CommandDefinition {
+  readonly name: string;
+  readonly options?: readonly OptionDefinition[];
+}
+
+export interface ResolvedUserOption {
+  user: APIUser;
+  /** `null` in DMs or when the user is not a member of the guild */
+  member: APIInteractionDataResolvedGuildMember | null;
+}
+
+export type ResolvedMentionableOption = ResolvedUserOption | { role: APIRole };
+
+interface OptionValueMap {
+  [ApplicationCommandOptionType.String]: string;
+  [ApplicationCommandOptionType.Integer]: number;
+  [ApplicationCommandOptionType.Boolean]: boolean;
+  [ApplicationCommandOptionType.User]: ResolvedUserOption;
+  [ApplicationCommandOptionType.Channel]: APIInteractionDataResolvedChannel;
+  [ApplicationCommandOptionType.Role]: APIRole;
+  [ApplicationCommandOptionType.Mentionable]: ResolvedMentionableOption;
+  [ApplicationCommandOptionType.Number]: number;
+  [ApplicationCommandOptionType.Attachment]: APIAttachment;
+}
+
+type OptionValue<Option extends OptionDefinition> = Option extends { choices: readonly { value: infer Value }[] }
+  ? Value
+  : Option['type'] extends keyof OptionValueMap
+    ? OptionValueMap[Option['type']]
+    : never;
+
+type SubcommandType = ApplicationCommandOptionType.Subcommand | ApplicationCommandOptionType.SubcommandGroup;
+
+export type ParsedOptionValues<Options extends readonly OptionDefinition[] | undefined> = Options extends readonly OptionDefinition[]
+  ? {
+    [Option in Options[number] as Option['name']]: Option extends { required: true }
+      ? OptionValue<Option>
+      : OptionValue<Option> | undefined;
+  }
+  : {};
+
+type SubcommandVariants<Options extends readonly OptionDefinition[], Group extends string | null> = Options[number] extends infer Option
+  ? Option extends { type: ApplicationCommandOptionType.SubcommandGroup; name: infer Name extends string; options: infer Subcommands extends readonly OptionDefinition[] }
+    ? SubcommandVariants<Subcommands, Name>
+    : Option extends { type: ApplicationCommandOptionType.Subcommand; name: infer Name extends string }
+      ? { subcommandGroup: Group; subcommand: Name; options: ParsedOptionValues<Option extends { options: infer Nested extends readonly OptionDefinition[] } ? Nested : undefined> }
+      : never
+  : never;
+
+/**
+ * The result of `parseOptions` for a definition: the option values keyed by name, and for
+ * commands with subcommands one variant per subcommand to narrow on
+ */
+export type ParsedOptions<Definition extends CommandDefinition> = Definition['options'] extends readonly OptionDefinition[]
+  ? Extract<Definition['options'][number], { type: SubcommandType }> extends never
+    ? { subcommandGroup: null; subcommand: null; options: ParsedOptionValues<Definition['options']> }
+    : SubcommandVariants<Definition['options'], null>
+  : { subcommandGroup: null; subcommand: null; options: {} };
+
+export interface ReceivedOptions {
+  subcommandGroup: string | null;
+  subcommand: string | null;
+  /** The options of the subcommand that was used, or the top level ones without subcommands */
+  options: APIApplicationCommandInteractionDataBasicOption[];
+}
+
+/**
+ * Finds the subcommand group and subcommand that were used, and the options passed to them
+ */
+export function getReceivedOptions(options: APIApplicationCommandInteractionDataOption[] = []): ReceivedOptions {
+  let subcommandGroup: string | null = null;
+  let subcommand: string | null = null;
+  let current = options;
+
+  if (current[0]?.type === ApplicationCommandOptionType.SubcommandGroup) {
+    subcommandGroup = current[0].name;
+    current = current[0].options;
+  }
+
+  if (current[0]?.type === ApplicationCommandOptionType.Subcommand) {
+    subcommand = current[0].name;
+    current = current[0].options ?? [];
+  }
+
+  return { subcommandGroup, subcommand, options: current as APIApplicationCommandInteractionDataBasicOption[] };
+}
+
+/**
+ * Reads the options of a chat input interaction into values typed after the command
+ * definition, resolving users, members, roles, channels and attachments
+ *
+ * @example
+ * ```ts
+ * const ban = {
+ *   name: 'ban',
+ *   description: 'Bans a user',
+ *   options: [
+ *     { type: ApplicationCommandOptionType.User, name: 'user', description: 'User to ban', required: true },
+ *     { type: ApplicationCommandOptionType.Integer, name: 'days', description: 'Days of messages to delete' },
+ *   ],
+ * } as const;
+ *
+ * const { options } = parseOptions(interaction, ban);
+ * options.user.member; // APIInteractionDataResolvedGuildMember | null
+ * options.days; // number | undefined
+ * ```
+ * @throws {MissingOptionError} When a required option was not provided
+ */
+export function parseOptions<const Definition extends CommandDefinition>(
+  interaction: APIChatInputApplicationCommandInteraction | APIApplicationCommandAutocompleteInteraction,
+  definition: Definition,
+): ParsedOptions<Definition> {
+  const received = getReceivedOptions(interaction.data.options);
+  const commandName = [interaction.data.name, received.subcommandGroup, received.subcommand]
+    .filter(Boolean)
+    .join(' ');
+
+  let definitions = definition.options ?? [];
+  for (const name of [received.subcommandGroup, received.subcommand]) {
+    if (name) {
+      definitions = definitions.find((option) => option.name === name)?.options ?? [];
+    }
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const option of definitions) {
+    const value = received.options.find((candidate) => candidate.name === option.name);
+
+    if (!value) {
+      if (option.required && !isAutocomplete(interaction)) {
+        throw new MissingOptionError(option.name, commandName);
+      }
+      continue;
+    }
+
+    values[option.name] = resolveOptionValue(value, interaction.data.resolved);
+  }
+
+  return {
+    subcommandGroup: received.subcommandGroup,
+    subcommand: received.subcommand,
+    options: values,
+  } as ParsedOptions<Definition>;
+}
+
+/**
+ * Turns a received option into its value, looking up the entities of id options in `resolved`
+ */
+export function resolveOptionValue(
+  option: APIApplicationCommandInteractionDataBasicOption,
+  resolved: APIInteractionDataResolved = {},
+): unknown {
+  switch (option.type) {
+    case ApplicationCommandOptionType.User:
+      return resolveUser(option.value, resolved);
+    case ApplicationCommandOptionType.Channel:
+      return resolved.channels?.[option.value];
+    case ApplicationCommandOptionType.Role:
+      return resolved.roles?.[option.value];
+    case ApplicationCommandOptionType.Attachment:
+      return resolved.attachments?.[option.value];
+    case ApplicationCommandOptionType.Mentionable: {
+      const role = resolved.roles?.[option.value];
+      return role ? { role } : resolveUser(option.value, resolved);
+    }
+    default:
+      return option.value;
+  }
+}
+
+function resolveUser(id: string, resolved: APIInteractionDataResolved): ResolvedUserOption | undefined {
+  const user = resolved.users?.[id];
+  return user ? { user, member: resolved.members?.[id] ?? null } : undefined;
+}
+
+// Options after the focused one have not been filled in yet, so they are never required
+function isAutocomplete(
+  interaction: APIChatInputApplicationCommandInteraction | APIApplicationCommandAutocompleteInteraction,
+): interaction is APIApplicationCommandAutocompleteInteraction {
+  return interaction.type === InteractionType.ApplicationCommandAutocomplete;
+}
@@ -0,0 +1,97 @@
+import type { APIInteraction } from 'discord-api-types/v10';
+import { importCachedKey } from '../crypto.js';
+
+export interface VerifyInteractionOptions {
+  /** Milliseconds the signature timestamp may differ from the current time, defaults to 5 minutes */
+  maxAge?: number;
+}
+
+export type VerifyInteractionFailure = 'missing_headers' | 'expired' | 'invalid_signature' | 'invalid_body';
+
+export type VerifyInteractionResult =
+  | { valid: true; interaction: APIInteraction; body: string }
+  | { valid: false; reason: VerifyInteractionFailure };
+
+const DEFAULT_MAX_AGE = 5 * 60 * 1000;
+
+/**
+ * Checks the Ed25519 signature Discord sends with interaction requests and parses the
+ * interaction. Discord requires endpoints to answer invalid signatures with a 401.
+ *
+ * @example
+ * ```ts
+ * const result = await verifyInteractionRequest(request, env.DISCORD_PUBLIC_KEY);
+ * if (!result.valid) {
+ *   return new Response('Bad request signature', { status: 401 });
+ * }
+ * ```
+ */
+export async function verifyInteractionRequest(
+  request: Request,
+  publicKey: string,
+  { maxAge = DEFAULT_MAX_AGE }: VerifyInteractionOptions = {},
+): Promise<VerifyInteractionResult> {
+  const signature = request.headers.get('X-Signature-Ed25519');
+  const timestamp = request.headers.get('X-Signature-Timestamp');
+
+  if (!signature || !timestamp) {
+    return { valid: false, reason: 'missing_headers' };
+  }
+
+  // Rejecting stale timestamps keeps captured requests from being replayed later
+  const sentAt = Number(timestamp) * 1000;
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > maxAge) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const body = await request.text();
+  const signatureBytes = hexToBytes(signature);
+  if (!signatureBytes) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  let valid: boolean;
+  try {
+    valid = await crypto.subtle.verify(
+      'Ed25519',
+      await importPublicKey(publicKey),
+      signatureBytes,
+      new TextEncoder().encode(timestamp + body),
+    );
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+
+  try {
+    return { valid: true, interaction: JSON.parse(body) as APIInteraction, body };
+  } catch {
+    return { valid: false, reason: 'invalid_body' };
+  }
+}
+
+async function importPublicKey(publicKey: string): Promise<CryptoKey> {
+  return importCachedKey(`Ed25519:${publicKey}`, async () => {
+    const bytes = hexToBytes(publicKey);
+    if (!bytes) {
+      throw new TypeError('The public key must be a hex string');
+    }
+
+    return crypto.subtle.importKey('raw', bytes, { name: 'Ed25519' }, false, ['verify']);
+  });
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[\da-f]*$/i.test(hex)) {
+    return null;
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,24 @@
+/**
+ * Thrown before sending a request when one of its files exceeds the upload limit
+ */
+export class AttachmentSizeError extends Error {
+  public readonly name = 'AttachmentSizeError';
+
+  /**
+   * @param fileName - The name of the file that is too large
+   * @param size - The size of the file in bytes
+   * @param limit - The upload limit in bytes
+   */
+  public constructor(
+    public readonly fileName: string,
+    public readonly size: number,
+    public readonly limit: number,
+  ) {
+    super(`File "${fileName}" is ${formatSize(size)}, larger than the ${formatSize(limit)} upload limit`);
+  }
+}
+
+function formatSize(bytes: number): string {
+  const mebibytes = bytes / (1024 * 1024);
+  return `${Number.isInteger(mebibytes) ? mebibytes : mebibytes.toFixed(2)} MiB`;
+}
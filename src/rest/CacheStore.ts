@@ -0,0 +1,54 @@
+import type { KVNamespace } from '@cloudflare/workers-types';
+import type { CacheStore } from '../types.js';
+
+/**
+ * Caches responses in a KV namespace, shared across every location.
+ * KV enforces a minimum TTL of 60 seconds, shorter TTLs are rounded up.
+ */
+export class KVCacheStore implements CacheStore {
+  public constructor(private readonly namespace: KVNamespace) {}
+
+  public async get(key: string): Promise<unknown | undefined> {
+    return (await this.namespace.get(key, 'json')) ?? undefined;
+  }
+
+  public async put(key: string, value: unknown, ttl: number): Promise<void> {
+    await this.namespace.put(key, JSON.stringify(value), {
+      expirationTtl: Math.max(ttl, 60),
+    });
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.namespace.delete(key);
+  }
+}
+
+/**
+ * Caches responses with the Workers Cache API, local to the data center serving the request
+ */
+export class CacheAPICacheStore implements CacheStore {
+  public constructor(private readonly cache: Cache = caches.default) {}
+
+  public async get(key: string): Promise<unknown | undefined> {
+    const response = await this.cache.match(toCacheURL(key));
+    return response ? response.json() : undefined;
+  }
+
+  public async put(key: string, value: unknown, ttl: number): Promise<void> {
+    await this.cache.put(toCacheURL(key), new Response(JSON.stringify(value), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': `max-age=${ttl}`,
+      },
+    }));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await this.cache.delete(toCacheURL(key));
+  }
+}
+
+// The Cache API only accepts http(s) URLs as keys, which prefixed keys are not
+function toCacheURL(key: string): string {
+  return `https://discord-cf.cache/${encodeURIComponent(key)}`;
+}
@@ -0,0 +1,119 @@
+import type { RawFile } from '../types.js';
+
+export interface DiscordErrorFieldInformation {
+  code: string;
+  message: string;
+}
+
+export interface DiscordErrorGroupWrapper {
+  _errors: DiscordError[];
+}
+
+export type DiscordError =
+  | DiscordErrorFieldInformation
+  | DiscordErrorGroupWrapper
+  | string
+  | { [k: string]: DiscordError };
+
+export interface DiscordErrorData {
+  code: number;
+  message: string;
+  errors?: DiscordError;
+}
+
+export interface OAuthErrorData {
+  error: string;
+  error_description?: string;
+}
+
+export interface RequestBody {
+  files: RawFile[] | undefined;
+  json: unknown;
+}
+
+function isErrorGroupWrapper(error: DiscordError): error is DiscordErrorGroupWrapper {
+  return typeof error === 'object' && error !== null && '_errors' in error;
+}
+
+function isErrorResponse(error: DiscordError): error is DiscordErrorFieldInformation {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as DiscordErrorFieldInformation).code === 'string' &&
+    typeof (error as DiscordErrorFieldInformation).message === 'string'
+  );
+}
+
+/**
+ * An error returned by the Discord API with a JSON error body
+ */
+export class DiscordAPIError extends Error {
+  public readonly name = 'DiscordAPIError';
+
+  public readonly requestBody: RequestBody;
+
+  /**
+   * @param rawError - The error body returned by Discord
+   * @param code - The JSON error code, or the error string for OAuth2 errors
+   * @param status - The HTTP status code of the response
+   * @param method - The HTTP method used for the request
+   * @param url - The full URL of the request
+   * @param bodyData - The files and JSON body sent with the request
+   */
+  public constructor(
+    public readonly rawError: DiscordErrorData | OAuthErrorData,
+    public readonly code: number | string,
+    public readonly status: number,
+    public readonly method: string,
+    public readonly url: string,
+    bodyData: Pick<RequestBody, 'files' | 'json'>,
+  ) {
+    super(DiscordAPIError.getMessage(rawError));
+    this.requestBody = { files: bodyData.files, json: bodyData.json };
+  }
+
+  private static getMessage(error: DiscordErrorData | OAuthErrorData): string {
+    if ('error' in error) {
+      return error.error_description ?? error.error;
+    }
+
+    const flattened = error.errors ? [...DiscordAPIError.flattenDiscordError(error.errors)].join('\n') : '';
+    return error.message && flattened
+      ? `${error.message}\n${flattened}`
+      : error.message || flattened || 'Unknown Error';
+  }
+
+  /**
+   * Renders the nested `errors` tree as one `path[CODE]: message` line per field error
+   */
+  private static *flattenDiscordError(error: DiscordError, key = ''): IterableIterator<string> {
+    if (isErrorResponse(error)) {
+      yield `${key ? `${key}[${error.code}]` : error.code}: ${error.message}`.trim();
+      return;
+    }
+
+    if (typeof error !== 'object' || error === null) {
+      return;
+    }
+
+    for (const [otherKey, value] of Object.entries(error)) {
+      const nextKey = otherKey.startsWith('_')
+        ? key
+        : key
+          ? Number.isNaN(Number(otherKey))
+            ? `${key}.${otherKey}`
+            : `${key}[${otherKey}]`
+          : otherKey;
+
+      if (typeof value === 'string') {
+        yield value;
+      } else if (isErrorGroupWrapper(value)) {
+        for (const nested of value._errors) {
+          yield* DiscordAPIError.flattenDiscordError(nested, nextKey);
+        }
+      } else {
+        yield* DiscordAPIError.flattenDiscordError(value, nextKey);
+      }
+    }
+  }
+}
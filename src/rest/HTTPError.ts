@@ -0,0 +1,28 @@
+import type { RequestBody } from './DiscordAPIError.js';
+
+/**
+ * An error response from the Discord API without a JSON error body, such as a 5xx from the edge
+ */
+export class HTTPError extends Error {
+  public readonly name = 'HTTPError';
+
+  public readonly requestBody: RequestBody;
+
+  /**
+   * @param status - The HTTP status code of the response
+   * @param statusText - The status text of the response
+   * @param method - The HTTP method used for the request
+   * @param url - The full URL of the request
+   * @param bodyData - The files and JSON body sent with the request
+   */
+  public constructor(
+    public readonly status: number,
+    statusText: string,
+    public readonly method: string,
+    public readonly url: string,
+    bodyData: Pick<RequestBody, 'files' | 'json'>,
+  ) {
+    super(statusText || `HTTP ${status}`);
+    this.requestBody = { files: bodyData.files, json: bodyData.json };
+  }
+}
@@ -1,10 +1,45 @@
 import { DefaultRestOptions, RESTEvents } from '../constants.js';
-import type { RESTOptions, RequestData, RawFile, RequestMethod } from '../types.js';
+import type {
+  RESTOptions,
+  RequestData,
+  RawFile,
+  RequestAuth,
+  RequestMethod,
+  RateLimitData,
+  RequestEventData,
+  ResponseEventData,
+} from '../types.js';
 import { Routes } from 'discord-api-types/v10';
+import { DiscordAPIError, type DiscordErrorData, type OAuthErrorData } from './DiscordAPIError.js';
+import { HTTPError } from './HTTPError.js';
+import { createFormData } from './files.js';
+import { SequentialHandler } from './SequentialHandler.js';
+import { generateRouteData } from './utils.js';
 
-export class REST extends EventTarget {
+export type RESTEventsMap = {
+  [RESTEvents.Debug]: CustomEvent<string>;
+  [RESTEvents.RateLimited]: CustomEvent<RateLimitData>;
+  [RESTEvents.Request]: CustomEvent<RequestEventData>;
+  [RESTEvents.Response]: CustomEvent<ResponseEventData>;
+};
+
+type OptionalRESTOptions = 'rateLimitStore' | 'cache';
+
+const IDEMPOTENT_METHODS = new Set<RequestMethod>(['DELETE', 'GET', 'PUT']);
+
+export class REST extends EventTarget<RESTEventsMap> {
   private token?: string;
-  private readonly options: Required<Omit<RESTOptions, 'auth'>>;
+  /** Default prefix of cache keys, derived from the token it was created for */
+  private cacheScope?: { token: string | undefined; prefix: Promise<string> };
+  public readonly options: Required<Omit<RESTOptions, OptionalRESTOptions>> & Pick<RESTOptions, OptionalRESTOptions>;
+
+  /** Maps `METHOD:bucketRoute` to the bucket hash Discord reported for it */
+  public readonly hashes = new Map<string, string>();
+  public readonly handlers = new Map<string, SequentialHandler>();
+
+  public globalRemaining: number;
+  public globalReset = -1;
+  public globalDelay: Promise<void> | null = null;
 
   constructor(options: RESTOptions = {}) {
     super();
@@ -12,6 +47,7 @@ export class REST extends EventTarget {
       ...DefaultRestOptions,
       ...options,
     };
+    this.globalRemaining = this.options.globalRequestsPerSecond;
   }
 
   public setToken(token: string): this {
@@ -39,81 +75,222 @@ export class REST extends EventTarget {
     return this.request('DELETE', route, options);
   }
 
-  private async request(method: RequestMethod, route: string, options: RequestData = {}) {
-    const url = new URL(`${this.options.api}${route}`);
-    
-    if (options.query) {
-      for (const [key, value] of options.query) {
-        url.searchParams.append(key, value);
-      }
-    }
-
+  /**
+   * Sends a request through the rate limit queue and resolves with the response as is,
+   * without parsing its body or throwing on error statuses
+   */
+  public async raw(method: RequestMethod, route: string, options: RequestData = {}): Promise<Response> {
     const headers = new Headers({
       ...this.options.headers,
       ...options.headers,
     });
 
-    const auth = options.auth ?? this.token;
-    if (auth) {
-      headers.set('Authorization', `Bot ${auth}`);
+    const authorization = this.resolveAuthorization(options.auth);
+    if (authorization) {
+      headers.set('Authorization', authorization);
     }
 
-    let body: FormData | string | undefined;
+    let body: BodyInit | undefined;
     
-    if (options.files?.length) {
-      const formData = new FormData();
-      
-      for (let i = 0; i < options.files.length; i++) {
-        const file = options.files[i];
-        const blob = new Blob([file.data], { type: file.contentType ?? 'application/octet-stream' });
-        formData.append(`files[${i}]`, blob, file.name);
-      }
-      
-      if (options.body) {
-        formData.append('payload_json', JSON.stringify(options.body));
-      }
-      
-      body = formData;
+    if (options.passThroughBody) {
+      body = options.body as BodyInit | undefined;
+    } else if (options.files?.length) {
+      body = await createFormData(
+        options.files,
+        options.body,
+        options.maxUploadSize ?? this.options.maxUploadSize,
+      );
     } else if (options.body) {
       headers.set('Content-Type', 'application/json');
       body = JSON.stringify(options.body);
     }
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.options.timeout);
+    const routeData = generateRouteData(route, method);
+    const handler = this.getHandler(method, routeData.bucketRoute, routeData.majorParameter);
 
-    try {
-      const response = await fetch(url.toString(), {
+    return handler.queueRequest(
+      routeData,
+      this.resolveURL(route, options),
+      {
         method,
         headers,
         body,
-        signal: options.signal ?? controller.signal,
-      });
-
-      clearTimeout(timeout);
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        let parsedError;
-        try {
-          parsedError = JSON.parse(errorBody);
-        } catch {
-          parsedError = { message: errorBody };
-        }
-        
-        throw new Error(`Discord API Error: ${response.status} - ${parsedError.message ?? 'Unknown error'}`);
-      }
+        signal: options.signal,
+      },
+      {
+        idempotent: options.idempotent ?? IDEMPOTENT_METHODS.has(method),
+        timeout: options.timeout ?? this.options.timeout,
+      },
+    );
+  }
 
-      if (response.headers.get('content-type')?.includes('application/json')) {
-        return response.json();
+  private async request(method: RequestMethod, route: string, options: RequestData = {}) {
+    // Requests made with other credentials may see different data, so they skip the cache
+    const cacheable = method === 'GET' && options.cache !== false && options.auth === undefined;
+    const cacheTtl = cacheable ? this.getCacheTtl(route) : undefined;
+    const url = this.resolveURL(route, options);
+    const cacheKey = cacheTtl ? await this.getCacheKey(url) : url;
+
+    if (cacheTtl) {
+      const cached = await this.readCache(cacheKey);
+      if (cached !== undefined) {
+        return cached;
       }
-      
-      return response.text();
+    }
+
+    const response = await this.raw(method, route, options);
+
+    if (!response.ok) {
+      throw await this.createError(response, method, url, options);
+    }
+
+    const data = response.headers.get('content-type')?.includes('application/json')
+      ? await response.json()
+      : await response.text();
+
+    if (cacheTtl) {
+      await this.writeCache(cacheKey, data, cacheTtl);
+    } else if (method !== 'GET' && this.options.cache) {
+      await this.invalidateCache(route);
+    }
+
+    return data;
+  }
+
+  private getCacheTtl(route: string): number | undefined {
+    if (!this.options.cache) {
+      return undefined;
+    }
+
+    return this.options.cache.ttl[generateRouteData(route, 'GET').bucketRoute];
+  }
+
+  /**
+   * Prefixes the URL with `cache.prefix`, or a hash of the token, as responses for one token
+   * must not be served to `REST` instances with another one sharing the store
+   */
+  private async getCacheKey(url: string): Promise<string> {
+    const { prefix } = this.options.cache!;
+    if (prefix !== undefined) {
+      return prefix + url;
+    }
+
+    if (!this.cacheScope || this.cacheScope.token !== this.token) {
+      this.cacheScope = { token: this.token, prefix: hashToken(this.token ?? '') };
+    }
+    return await this.cacheScope.prefix + url;
+  }
+
+  private async readCache(key: string): Promise<unknown> {
+    try {
+      return await this.options.cache!.store.get(key);
     } catch (error) {
-      clearTimeout(timeout);
-      throw error;
+      this.debug(`Failed to read ${key} from cache (${String(error)})`);
+      return undefined;
     }
   }
+
+  private async writeCache(key: string, data: unknown, ttl: number): Promise<void> {
+    try {
+      await this.options.cache!.store.put(key, data, ttl);
+    } catch (error) {
+      this.debug(`Failed to write ${key} to cache (${String(error)})`);
+    }
+  }
+
+  /**
+   * Drops cached responses a mutation may have changed: the route itself and its parent
+   * collection, e.g. `/guilds/1/roles/2` and `/guilds/1/roles`. Cached URLs with a query
+   * string are left to expire.
+   */
+  private async invalidateCache(route: string): Promise<void> {
+    const path = route.split('?')[0];
+    const urls = [path, path.slice(0, path.lastIndexOf('/'))]
+      .filter((candidate) => candidate && this.getCacheTtl(candidate))
+      .map((candidate) => this.resolveURL(candidate, {}));
+
+    await Promise.all(urls.map(async (url) => {
+      const key = await this.getCacheKey(url);
+      try {
+        await this.options.cache!.store.delete(key);
+      } catch (error) {
+        this.debug(`Failed to invalidate ${key} in cache (${String(error)})`);
+      }
+    }));
+  }
+
+  private debug(message: string): void {
+    this.dispatchEvent(new CustomEvent<string>(RESTEvents.Debug, { detail: `[REST] ${message}` }));
+  }
+
+  private resolveAuthorization(auth: RequestAuth | undefined): string | undefined {
+    if (auth === false) {
+      return undefined;
+    }
+
+    const { type, token } = typeof auth === 'object'
+      ? auth
+      : { type: this.options.authPrefix, token: auth ?? this.token };
+
+    if (!token) {
+      return undefined;
+    }
+
+    // Tokens copied with their prefix, e.g. `Bot MTk4...`, are sent as they are
+    return /^(Bot|Bearer) /.test(token) ? token : `${type} ${token}`;
+  }
+
+  private resolveURL(route: string, options: RequestData): string {
+    const url = new URL(`${this.options.api}${route}`);
+
+    if (options.query) {
+      for (const [key, value] of options.query) {
+        url.searchParams.append(key, value);
+      }
+    }
+
+    return url.toString();
+  }
+
+  private async createError(
+    response: Response,
+    method: RequestMethod,
+    url: string,
+    options: RequestData,
+  ): Promise<DiscordAPIError | HTTPError> {
+    const bodyData = { files: options.files, json: options.body };
+    const errorBody = await response.text();
+
+    // Server errors come from Discord's edge and rarely carry a meaningful JSON body
+    if (response.status < 500) {
+      let parsedError: DiscordErrorData | OAuthErrorData | undefined;
+      try {
+        parsedError = JSON.parse(errorBody);
+      } catch {
+        parsedError = undefined;
+      }
+
+      if (parsedError && typeof parsedError === 'object') {
+        const code = 'error' in parsedError ? parsedError.error : parsedError.code;
+        return new DiscordAPIError(parsedError, code, response.status, method, url, bodyData);
+      }
+    }
+
+    return new HTTPError(response.status, response.statusText, method, url, bodyData);
+  }
+
+  public getHandler(method: RequestMethod, bucketRoute: string, majorParameter: string): SequentialHandler {
+    const hash = this.hashes.get(`${method}:${bucketRoute}`) ?? `Global(${method}:${bucketRoute})`;
+    const key = `${hash}:${majorParameter}`;
+
+    let handler = this.handlers.get(key);
+    if (!handler) {
+      handler = new SequentialHandler(this, hash, majorParameter);
+      this.handlers.set(key, handler);
+    }
+
+    return handler;
+  }
 }
 
 export function makeURLSearchParams(options: Record<string, any>): URLSearchParams {
@@ -124,4 +301,11 @@ export function makeURLSearchParams(options: Record<string, any>): URLSearchPara
     }
   }
   return params;
-}
\ No newline at end of file
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  // A truncated hash separates tokens without putting them into cache keys
+  const hex = [...new Uint8Array(digest, 0, 8)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex}:`;
+}
@@ -0,0 +1,336 @@
+import { RESTEvents } from '../constants.js';
+import type {
+  RateLimitAcquireData,
+  RateLimitAcquireResult,
+  RateLimitData,
+  RequestEventData,
+  RequestMethod,
+  ResponseEventData,
+  RouteData,
+} from '../types.js';
+import type { REST } from './REST.js';
+import { TimeoutError } from './TimeoutError.js';
+import { calculateBackoff, raceAbort, sleep } from './utils.js';
+
+export interface HandlerRequestOptions {
+  /** Whether the request may be retried after a server error, network failure or timeout */
+  idempotent: boolean;
+  /** Milliseconds each attempt may take before it is aborted */
+  timeout: number;
+}
+
+/**
+ * Queues requests sharing a rate limit bucket and sends them one at a time,
+ * waiting out the bucket and global limits reported by Discord
+ */
+export class SequentialHandler {
+  private reset = -1;
+  private remaining = 1;
+  private limit = Number.POSITIVE_INFINITY;
+  private queue: Promise<void> = Promise.resolve();
+
+  public constructor(
+    private readonly manager: REST,
+    public readonly hash: string,
+    public readonly majorParameter: string,
+  ) {}
+
+  public get limited(): boolean {
+    return this.remaining <= 0 && Date.now() < this.reset;
+  }
+
+  public get timeToReset(): number {
+    return this.reset - Date.now();
+  }
+
+  public async queueRequest(
+    routeData: RouteData,
+    url: string,
+    init: RequestInit,
+    options: HandlerRequestOptions,
+  ): Promise<Response> {
+    const previous = this.queue;
+    let release!: () => void;
+    this.queue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    await previous;
+
+    try {
+      return await this.runRequest(routeData, url, init, options);
+    } finally {
+      release();
+    }
+  }
+
+  private async runRequest(
+    routeData: RouteData,
+    url: string,
+    init: RequestInit,
+    options: HandlerRequestOptions,
+    retries = 0,
+  ): Promise<Response> {
+    init.signal?.throwIfAborted();
+
+    while (this.limited) {
+      const timeout = this.timeToReset;
+      this.onRateLimit(routeData, url, init, { timeout, limit: this.limit, global: false });
+      await sleep(timeout, init.signal);
+    }
+
+    // Interaction callbacks are not subject to the global rate limit
+    const exemptFromGlobal = routeData.bucketRoute.startsWith('/interactions');
+    if (!exemptFromGlobal) {
+      await this.waitForGlobal(routeData, url, init);
+    }
+
+    if (this.manager.options.rateLimitStore) {
+      await this.waitForStore(routeData, url, init, exemptFromGlobal);
+    }
+
+    const canRetry = retries < this.manager.options.retries;
+    const eventData: RequestEventData = {
+      method: init.method as RequestMethod,
+      url,
+      route: routeData.bucketRoute,
+      hash: this.hash,
+      majorParameter: this.majorParameter,
+      retries,
+    };
+
+    this.manager.dispatchEvent(new CustomEvent<RequestEventData>(RESTEvents.Request, { detail: eventData }));
+    const start = Date.now();
+
+    // The timeout applies to each attempt, while the caller's signal spans all of them
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), options.timeout);
+
+    let response: Response;
+    try {
+      response = await this.manager.options.makeRequest(url, {
+        ...init,
+        signal: init.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal,
+      });
+    } catch (error) {
+      // A request aborted by the caller is never retried. Network failures and timeouts
+      // may happen after Discord processed the request, so only idempotent ones are
+      if (init.signal?.aborted) {
+        throw error;
+      }
+
+      if (canRetry && options.idempotent) {
+        const delay = calculateBackoff(retries);
+        this.debug(`${init.method} ${routeData.bucketRoute} failed (${String(error)}), retrying in ${Math.round(delay)}ms`);
+        await sleep(delay, init.signal);
+        return this.runRequest(routeData, url, init, options, retries + 1);
+      }
+
+      if (controller.signal.aborted) {
+        throw new TimeoutError(init.method ?? 'GET', url, options.timeout);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    this.manager.dispatchEvent(
+      new CustomEvent<ResponseEventData>(RESTEvents.Response, {
+        detail: {
+          ...eventData,
+          hash: response.headers.get('X-RateLimit-Bucket') ?? this.hash,
+          status: response.status,
+          duration: Date.now() - start,
+        },
+      }),
+    );
+
+    this.updateFromHeaders(routeData, init, response.headers);
+
+    const retryAfter = response.status === 429
+      ? Number(response.headers.get('Retry-After') ?? 1) * 1000 + this.manager.options.offset
+      : null;
+    const global = response.headers.get('X-RateLimit-Global') === 'true';
+
+    if (this.manager.options.rateLimitStore) {
+      await this.updateStore(routeData, init, response.headers, retryAfter, global);
+    }
+
+    if (retryAfter !== null) {
+      if (global) {
+        this.manager.globalRemaining = 0;
+        this.manager.globalReset = Date.now() + retryAfter;
+      } else {
+        this.remaining = 0;
+        this.reset = Date.now() + retryAfter;
+      }
+
+      this.onRateLimit(routeData, url, init, {
+        timeout: retryAfter,
+        limit: global ? this.manager.options.globalRequestsPerSecond : this.limit,
+        global,
+        scope: response.headers.get('X-RateLimit-Scope') ?? undefined,
+      });
+
+      // Rate limited requests were rejected before being processed, so they are always safe to
+      // retry; the bucket and global waits at the top of this method handle `retry_after`
+      if (canRetry) {
+        this.debug(`${init.method} ${routeData.bucketRoute} was rate limited, retrying in ${retryAfter}ms`);
+        await response.body?.cancel();
+        return this.runRequest(routeData, url, init, options, retries + 1);
+      }
+    } else if (response.status >= 500 && canRetry && options.idempotent) {
+      const delay = calculateBackoff(retries);
+      this.debug(`${init.method} ${routeData.bucketRoute} returned ${response.status}, retrying in ${Math.round(delay)}ms`);
+      await response.body?.cancel();
+      await sleep(delay, init.signal);
+      return this.runRequest(routeData, url, init, options, retries + 1);
+    }
+
+    return response;
+  }
+
+  private async waitForGlobal(routeData: RouteData, url: string, init: RequestInit): Promise<void> {
+    const { manager } = this;
+
+    while (true) {
+      if (manager.globalDelay) {
+        // The delay is shared by all requests, so an abort only stops this one waiting for it
+        await raceAbort(manager.globalDelay, init.signal);
+        continue;
+      }
+
+      const now = Date.now();
+      if (manager.globalReset < now) {
+        manager.globalReset = now + 1000;
+        manager.globalRemaining = manager.options.globalRequestsPerSecond;
+      }
+
+      if (manager.globalRemaining > 0) {
+        manager.globalRemaining--;
+        return;
+      }
+
+      const timeout = manager.globalReset + manager.options.offset - now;
+      this.onRateLimit(routeData, url, init, {
+        timeout,
+        limit: manager.options.globalRequestsPerSecond,
+        global: true,
+      });
+
+      manager.globalDelay = sleep(timeout).then(() => {
+        manager.globalDelay = null;
+      });
+    }
+  }
+
+  private async waitForStore(
+    routeData: RouteData,
+    url: string,
+    init: RequestInit,
+    exemptFromGlobal: boolean,
+  ): Promise<void> {
+    const data: RateLimitAcquireData = {
+      route: `${init.method}:${routeData.bucketRoute}`,
+      majorParameter: this.majorParameter,
+      globalLimit: exemptFromGlobal ? undefined : this.manager.options.globalRequestsPerSecond,
+    };
+
+    while (true) {
+      let limit: RateLimitAcquireResult | null;
+      try {
+        limit = await this.manager.options.rateLimitStore!.acquire(data);
+      } catch (error) {
+        // The shared state is an optimisation, fall back to the local buckets when it is unavailable
+        this.debug(`Rate limit store unavailable (${String(error)}), using local state`);
+        return;
+      }
+
+      if (!limit || limit.timeout <= 0) {
+        return;
+      }
+
+      this.onRateLimit(routeData, url, init, limit);
+      await sleep(limit.timeout, init.signal);
+    }
+  }
+
+  private async updateStore(
+    routeData: RouteData,
+    init: RequestInit,
+    headers: Headers,
+    retryAfter: number | null,
+    global: boolean,
+  ): Promise<void> {
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const resetAfter = headers.get('X-RateLimit-Reset-After');
+
+    try {
+      await this.manager.options.rateLimitStore!.update({
+        route: `${init.method}:${routeData.bucketRoute}`,
+        majorParameter: this.majorParameter,
+        hash: headers.get('X-RateLimit-Bucket'),
+        limit: limit ? Number(limit) : null,
+        remaining: remaining ? Number(remaining) : null,
+        resetAfter: resetAfter ? Number(resetAfter) * 1000 + this.manager.options.offset : null,
+        retryAfter,
+        global,
+      });
+    } catch (error) {
+      this.debug(`Failed to update rate limit store (${String(error)})`);
+    }
+  }
+
+  private updateFromHeaders(routeData: RouteData, init: RequestInit, headers: Headers): void {
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const resetAfter = headers.get('X-RateLimit-Reset-After');
+    const hash = headers.get('X-RateLimit-Bucket');
+
+    this.limit = limit ? Number(limit) : Number.POSITIVE_INFINITY;
+    this.remaining = remaining ? Number(remaining) : 1;
+    this.reset = resetAfter
+      ? Date.now() + Number(resetAfter) * 1000 + this.manager.options.offset
+      : Date.now();
+
+    // Later requests on this route are routed to the handler of the bucket Discord reported,
+    // which starts out with the limits this response just told us about
+    if (hash && hash !== this.hash) {
+      const method = init.method as RequestMethod;
+      this.manager.hashes.set(`${method}:${routeData.bucketRoute}`, hash);
+      this.debug(`Bucket hash for ${method} ${routeData.bucketRoute} is ${hash}`);
+
+      const handler = this.manager.getHandler(method, routeData.bucketRoute, this.majorParameter);
+      handler.limit = this.limit;
+      handler.remaining = this.remaining;
+      handler.reset = this.reset;
+    }
+  }
+
+  private debug(message: string): void {
+    this.manager.dispatchEvent(
+      new CustomEvent<string>(RESTEvents.Debug, { detail: `[REST ${this.hash}:${this.majorParameter}] ${message}` }),
+    );
+  }
+
+  private onRateLimit(
+    routeData: RouteData,
+    url: string,
+    init: RequestInit,
+    data: Pick<RateLimitData, 'timeout' | 'limit' | 'global' | 'scope'>,
+  ): void {
+    this.manager.dispatchEvent(
+      new CustomEvent<RateLimitData>(RESTEvents.RateLimited, {
+        detail: {
+          ...data,
+          method: init.method ?? 'GET',
+          path: new URL(url).pathname,
+          route: routeData.bucketRoute,
+          hash: this.hash,
+          majorParameter: this.majorParameter,
+        },
+      }),
+    );
+  }
+}
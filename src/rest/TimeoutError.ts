@@ -0,0 +1,20 @@
+/**
+ * Thrown when a request did not complete within the configured `timeout`. Requests aborted
+ * through the caller's `signal` reject with that signal's abort reason instead.
+ */
+export class TimeoutError extends Error {
+  public readonly name = 'TimeoutError';
+
+  /**
+   * @param method - The HTTP method used for the request
+   * @param url - The full URL of the request
+   * @param timeout - The timeout that elapsed, in milliseconds
+   */
+  public constructor(
+    public readonly method: string,
+    public readonly url: string,
+    public readonly timeout: number,
+  ) {
+    super(`Request to ${method} ${url} timed out after ${timeout}ms`);
+  }
+}
@@ -0,0 +1,120 @@
+import { GuildPremiumTier, type APIAttachment } from 'discord-api-types/v10';
+import type { RawFile } from '../types.js';
+import { AttachmentSizeError } from './AttachmentSizeError.js';
+
+const MiB = 1024 * 1024;
+
+type AttachmentPayload = Omit<Partial<APIAttachment>, 'id'> & { id: string | number };
+
+/**
+ * Returns the largest file a guild with the given boost tier accepts, in bytes
+ */
+export function getUploadLimit(premiumTier: GuildPremiumTier): number {
+  switch (premiumTier) {
+    case GuildPremiumTier.Tier2:
+      return 50 * MiB;
+    case GuildPremiumTier.Tier3:
+      return 100 * MiB;
+    default:
+      return 10 * MiB;
+  }
+}
+
+/**
+ * Builds the multipart body for a request with files, adding an `attachments` entry
+ * for each file to the JSON payload so descriptions and spoiler names reach Discord.
+ * For interaction responses, the entries go into the message in `data`.
+ */
+export async function createFormData(files: RawFile[], body: unknown, maxUploadSize: number): Promise<FormData> {
+  const formData = new FormData();
+  const attachments: AttachmentPayload[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const id = file.key ? Number(/^files\[(\d+)\]$/.exec(file.key)?.[1] ?? i) : i;
+    const name = file.spoiler && !file.name.startsWith('SPOILER_') ? `SPOILER_${file.name}` : file.name;
+
+    const blob = await toBlob(file, name, maxUploadSize);
+    formData.append(file.key ?? `files[${id}]`, blob, name);
+
+    attachments.push({
+      id,
+      filename: name,
+      ...(file.description === undefined ? {} : { description: file.description }),
+    });
+  }
+
+  const payload = (typeof body === 'object' && body !== null ? body : {}) as AttachmentsBody;
+  formData.append('payload_json', JSON.stringify(
+    isInteractionResponse(payload)
+      ? { ...payload, data: withAttachments(payload.data ?? {}, attachments) }
+      : withAttachments(payload, attachments),
+  ));
+
+  return formData;
+}
+
+interface AttachmentsBody {
+  attachments?: AttachmentPayload[];
+}
+
+/**
+ * Interaction callbacks carry the message in `data`, which is where Discord reads `attachments` from
+ */
+function isInteractionResponse(body: object): body is { type: number; data?: AttachmentsBody } {
+  return typeof (body as { type?: unknown }).type === 'number'
+    && (!('data' in body) || typeof body.data === 'object');
+}
+
+function withAttachments<Body extends AttachmentsBody>(body: Body, attachments: AttachmentPayload[]): Body {
+  return { ...body, attachments: mergeAttachments(body.attachments ?? [], attachments) };
+}
+
+async function toBlob(file: RawFile, name: string, maxUploadSize: number): Promise<Blob> {
+  const { data } = file;
+  const type = file.contentType ?? 'application/octet-stream';
+  let blob: Blob;
+
+  if (typeof data === 'string' || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    blob = new Blob([data], { type });
+  } else if (data instanceof Blob) {
+    blob = file.contentType || !data.type ? new Blob([data], { type }) : data;
+  } else if (data instanceof ReadableStream) {
+    // Multipart bodies need a known length, so streams are buffered before sending
+    blob = new Blob([await new Response(data).arrayBuffer()], { type });
+  } else {
+    // R2 objects report their size up front, so oversized ones are never read
+    assertSize(name, data.size, maxUploadSize);
+    blob = new Blob([await data.arrayBuffer()], {
+      type: file.contentType ?? data.httpMetadata?.contentType ?? 'application/octet-stream',
+    });
+  }
+
+  assertSize(name, blob.size, maxUploadSize);
+  return blob;
+}
+
+function assertSize(name: string, size: number, limit: number): void {
+  if (size > limit) {
+    throw new AttachmentSizeError(name, size, limit);
+  }
+}
+
+/**
+ * Entries passed by the caller win over generated ones with the same `id`, and existing
+ * attachments being kept on an edit are left in place
+ */
+function mergeAttachments(existing: AttachmentPayload[], generated: AttachmentPayload[]): AttachmentPayload[] {
+  const merged = existing.map((attachment) => {
+    const match = generated.find(({ id }) => String(id) === String(attachment.id));
+    return match ? { ...match, ...attachment } : attachment;
+  });
+
+  for (const attachment of generated) {
+    if (!existing.some(({ id }) => String(id) === String(attachment.id))) {
+      merged.push(attachment);
+    }
+  }
+
+  return merged;
+}
@@ -1,3 +1,12 @@
 export * from './REST.js';
-export { Routes } from 'discord-api-types/v10';
+export * from './CacheStore.js';
+export * from './DiscordAPIError.js';
+export * from './HTTPError.js';
+export * from './TimeoutError.js';
+export * from './AttachmentSizeError.js';
+export { getUploadLimit } from './files.js';
+export * from './SequentialHandler.js';
+export * from './proxy.js';
+export { generateRouteData } from './utils.js';
+export { Routes, RESTJSONErrorCodes } from 'discord-api-types/v10';
 export type { RequestData, RawFile } from '../types.js';
\ No newline at end of file
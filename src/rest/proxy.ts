@@ -0,0 +1,86 @@
+import { API_VERSION } from '../constants.js';
+import type { RequestMethod } from '../types.js';
+import type { REST } from './REST.js';
+import { TimeoutError } from './TimeoutError.js';
+
+export interface ProxyHandlerOptions {
+  /**
+   * Rejects the request with a 401 unless it resolves to `true`, e.g. to check a shared secret.
+   *
+   * Required, as callers of the proxy act with the bot's token: without a check, anyone who can
+   * reach the Worker could make any API request as the bot. Only return `true` unconditionally
+   * when the proxy is not reachable publicly, e.g. behind a Service Binding.
+   */
+  authorize: (request: Request) => boolean | Promise<boolean>;
+}
+
+const PROXY_METHODS = ['DELETE', 'GET', 'PATCH', 'POST', 'PUT'];
+const FORWARDED_REQUEST_HEADERS = ['Content-Type', 'X-Audit-Log-Reason'];
+// The body is already decoded by fetch, so these no longer describe it
+const STRIPPED_RESPONSE_HEADERS = ['Content-Encoding', 'Content-Length', 'Transfer-Encoding'];
+
+/**
+ * Creates a fetch handler that forwards requests shaped like the Discord API (`/api/v10/*`)
+ * through `rest`, applying its authentication and rate limit handling. Requests are only
+ * forwarded when `authorize` accepts them.
+ */
+export function createProxyHandler(rest: REST, { authorize }: ProxyHandlerOptions) {
+  const prefix = `/api/v${API_VERSION}`;
+
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+
+    if (!url.pathname.startsWith(`${prefix}/`)) {
+      return new Response('Not Found', { status: 404 });
+    }
+
+    if (!PROXY_METHODS.includes(request.method)) {
+      return new Response('Method Not Allowed', {
+        status: 405,
+        headers: { Allow: PROXY_METHODS.join(', ') },
+      });
+    }
+
+    // Also rejects everything when JavaScript callers leave `authorize` out
+    if (!(await authorize?.(request))) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+      const value = request.headers.get(name);
+      if (value) {
+        headers[name] = value;
+      }
+    }
+
+    // Buffered so the body can be sent again when the request is retried
+    const body = request.body ? await request.arrayBuffer() : undefined;
+
+    let response: Response;
+    try {
+      response = await rest.raw(request.method as RequestMethod, url.pathname.slice(prefix.length), {
+        body,
+        passThroughBody: true,
+        headers,
+        query: url.searchParams,
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ message: String(error) }), {
+        status: error instanceof TimeoutError ? 504 : 502,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const responseHeaders = new Headers(response.headers);
+    for (const name of STRIPPED_RESPONSE_HEADERS) {
+      responseHeaders.delete(name);
+    }
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+    });
+  };
+}
@@ -0,0 +1,91 @@
+import type { RequestMethod, RouteData } from '../types.js';
+
+const DISCORD_EPOCH = 1_420_070_400_000;
+const FOURTEEN_DAYS = 1000 * 60 * 60 * 24 * 14;
+
+/**
+ * Resolves the rate limit bucket route and major parameter for an endpoint
+ */
+export function generateRouteData(endpoint: string, method: RequestMethod): RouteData {
+  const path = endpoint.split('?')[0];
+
+  const majorIdMatch = /^\/(?:webhooks\/(\d{17,19}\/[^/?]+)|(?:channels|guilds|webhooks)\/(\d{17,19}))/.exec(path);
+  const majorParameter = majorIdMatch?.[1] ?? majorIdMatch?.[2] ?? 'global';
+
+  const baseRoute = path
+    .replace(/\d{17,19}/g, ':id')
+    .replace(/\/reactions\/(.*)/, '/reactions/:reaction')
+    .replace(/\/webhooks\/:id\/[^/?]+/, '/webhooks/:id/:token')
+    .replace(/\/interactions\/:id\/[^/?]+/, '/interactions/:id/:token');
+
+  let exceptions = '';
+
+  // Deleting messages older than two weeks has its own, much stricter bucket
+  if (method === 'DELETE' && baseRoute === '/channels/:id/messages/:id') {
+    const id = /\d{17,19}$/.exec(path)![0];
+    const timestamp = Number(BigInt(id) >> 22n) + DISCORD_EPOCH;
+    if (Date.now() - timestamp > FOURTEEN_DAYS) {
+      exceptions += '/Delete Old Message';
+    }
+  }
+
+  return {
+    majorParameter,
+    bucketRoute: baseRoute + exceptions,
+    original: endpoint,
+  };
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with the abort reason once `signal` is aborted
+ */
+export async function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Waits for a promise shared with other requests, rejecting with the abort reason once `signal`
+ * is aborted while leaving the promise itself to the other waiters
+ */
+export async function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  signal.throwIfAborted();
+
+  let onAbort!: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Exponential backoff with jitter for retrying failed requests, starting at 250-500ms
+ */
+export function calculateBackoff(retries: number): number {
+  const base = 500 * 2 ** retries;
+  return base / 2 + Math.random() * (base / 2);
+}
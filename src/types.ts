@@ -1,24 +1,92 @@
+/** A value, or a promise of it, e.g. what handlers may return */
+export type Awaitable<T> = T | Promise<T>;
+
+export type AuthPrefix = 'Bot' | 'Bearer';
+
+/**
+ * Authorization for a single request: `false` to send none, a token using the `authPrefix`
+ * of `REST`, or a token with an explicit type such as an OAuth2 access token
+ */
+export type RequestAuth = false | string | { type: AuthPrefix; token: string };
+
 export interface RESTOptions {
   api?: string;
+  /** Prefix for the token set with `setToken`, `Bearer` for OAuth2 access tokens */
+  authPrefix?: AuthPrefix;
   cdn?: string;
   headers?: Record<string, string>;
   retries?: number;
   timeout?: number;
+  globalRequestsPerSecond?: number;
+  offset?: number;
+  /** Shares rate limit state with other `REST` instances, e.g. through a `RateLimitCoordinator` */
+  rateLimitStore?: RateLimitStore;
+  /** Sends a prepared request, defaults to the global `fetch` */
+  makeRequest?: MakeRequest;
+  /** Caches GET responses for the configured routes */
+  cache?: RESTCacheOptions;
+  /** Largest file size in bytes allowed for uploads, defaults to the 10 MiB limit of unboosted guilds */
+  maxUploadSize?: number;
+}
+
+/**
+ * Storage for cached GET responses, keyed by request URL with a prefix, see `RESTCacheOptions#prefix`
+ */
+export interface CacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  put(key: string, value: unknown, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface RESTCacheOptions {
+  store: CacheStore;
+  /**
+   * Seconds to cache GET responses for, keyed by bucket route such as `/guilds/:id/roles`.
+   * Routes not listed are never cached.
+   */
+  ttl: Record<string, number>;
+  /**
+   * Prepended to the request URL to form cache keys. Defaults to a hash of the token, so
+   * `REST` instances with different tokens sharing a store do not read each other's responses.
+   */
+  prefix?: string;
 }
 
+export type MakeRequest = (url: string, init: RequestInit) => Promise<Response>;
+
 export interface RequestData {
-  auth?: string;
+  auth?: RequestAuth;
   body?: unknown;
+  /** Sends `body` as is instead of encoding it as JSON */
+  passThroughBody?: boolean;
+  /** Set to `false` to bypass the response cache for this request */
+  cache?: boolean;
+  /** Largest file size in bytes allowed for `files`, see `getUploadLimit` */
+  maxUploadSize?: number;
   files?: RawFile[];
   headers?: Record<string, string>;
   query?: URLSearchParams;
+  /** Aborts the request, including any rate limit waits and retries */
   signal?: AbortSignal;
+  /** Milliseconds each attempt may take, overriding the `timeout` option of `REST` */
+  timeout?: number;
+  /**
+   * Whether the request may be retried after a server error, network failure or timeout.
+   * Defaults to `true` for GET, PUT and DELETE requests
+   */
+  idempotent?: boolean;
 }
 
 export interface RawFile {
-  data: ArrayBuffer | Uint8Array | string;
+  data: ArrayBuffer | Uint8Array | string | Blob | ReadableStream | R2ObjectBody;
   name: string;
   contentType?: string;
+  /** Alt text, sent as the `description` of the matching `attachments` entry */
+  description?: string;
+  /** Marks the attachment as a spoiler by prefixing its file name with `SPOILER_` */
+  spoiler?: boolean;
+  /** Form field name for the file, defaults to `files[n]` */
+  key?: string;
 }
 
 export interface APIRequest {
@@ -44,4 +112,55 @@ export interface RateLimitData {
   path: string;
   route: string;
   global: boolean;
-}
\ No newline at end of file
+  hash: string;
+  majorParameter: string;
+  scope?: string;
+}
+
+export interface RequestEventData {
+  method: RequestMethod;
+  url: string;
+  route: string;
+  hash: string;
+  majorParameter: string;
+  retries: number;
+}
+
+export interface ResponseEventData extends RequestEventData {
+  status: number;
+  duration: number;
+}
+
+export interface RateLimitAcquireData {
+  /** `METHOD:bucketRoute` of the request */
+  route: string;
+  majorParameter: string;
+  /** Requests per second allowed globally, omitted for routes exempt from the global limit */
+  globalLimit?: number;
+}
+
+export interface RateLimitUpdateData {
+  route: string;
+  majorParameter: string;
+  hash: string | null;
+  limit: number | null;
+  remaining: number | null;
+  /** Milliseconds until the bucket resets */
+  resetAfter: number | null;
+  /** Milliseconds to wait after a 429 response */
+  retryAfter: number | null;
+  global: boolean;
+}
+
+export type RateLimitAcquireResult = Pick<RateLimitData, 'timeout' | 'limit' | 'global'>;
+
+export interface RateLimitStore {
+  /**
+   * Reserves a request slot, resolving with the limit to wait out first or `null` when the request may be sent
+   */
+  acquire(data: RateLimitAcquireData): Promise<RateLimitAcquireResult | null>;
+  /**
+   * Records the rate limit state reported by a response
+   */
+  update(data: RateLimitUpdateData): Promise<void>;
+}
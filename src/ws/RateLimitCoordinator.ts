@@ -0,0 +1,114 @@
+import type { DurableObject, DurableObjectState } from '@cloudflare/workers-types';
+import type { RateLimitAcquireData, RateLimitAcquireResult, RateLimitUpdateData } from '../types.js';
+
+interface BucketState {
+  limit: number;
+  remaining: number;
+  reset: number;
+}
+
+/**
+ * Holds the rate limit buckets and global limit of one bot across all Worker isolates.
+ * State is kept in memory only, as every limit it tracks resets within seconds.
+ */
+export class RateLimitCoordinator implements DurableObject {
+  private readonly hashes = new Map<string, string>();
+  private readonly buckets = new Map<string, BucketState>();
+  private globalRemaining = 0;
+  private globalReset = -1;
+
+  constructor(state: DurableObjectState, env: unknown) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    switch (url.pathname) {
+      case '/acquire':
+        return this.handleAcquire(request);
+      case '/update':
+        return this.handleUpdate(request);
+      default:
+        return new Response('Not Found', { status: 404 });
+    }
+  }
+
+  private async handleAcquire(request: Request): Promise<Response> {
+    const data = await request.json() as RateLimitAcquireData;
+    return this.json(this.acquire(data));
+  }
+
+  private acquire(data: RateLimitAcquireData): RateLimitAcquireResult | null {
+    const now = Date.now();
+    const bucket = this.buckets.get(this.bucketKey(data.route, data.majorParameter));
+
+    if (bucket && bucket.remaining <= 0 && now < bucket.reset) {
+      return { timeout: bucket.reset - now, limit: bucket.limit, global: false };
+    }
+
+    if (data.globalLimit !== undefined) {
+      if (this.globalReset < now) {
+        this.globalReset = now + 1000;
+        this.globalRemaining = data.globalLimit;
+      }
+
+      if (this.globalRemaining <= 0) {
+        return { timeout: this.globalReset - now, limit: data.globalLimit, global: true };
+      }
+
+      this.globalRemaining--;
+    }
+
+    // Reserve a slot so concurrent isolates do not all see the same remaining count
+    if (bucket && now < bucket.reset) {
+      bucket.remaining--;
+    }
+
+    return null;
+  }
+
+  private async handleUpdate(request: Request): Promise<Response> {
+    const data = await request.json() as RateLimitUpdateData;
+    const now = Date.now();
+
+    if (data.hash) {
+      this.hashes.set(data.route, data.hash);
+    }
+
+    const key = this.bucketKey(data.route, data.majorParameter);
+    const existing = this.buckets.get(key);
+
+    if (data.retryAfter !== null && data.global) {
+      this.globalRemaining = 0;
+      this.globalReset = now + data.retryAfter;
+    } else if (data.retryAfter !== null) {
+      this.buckets.set(key, {
+        limit: data.limit ?? existing?.limit ?? 0,
+        remaining: 0,
+        reset: now + data.retryAfter,
+      });
+    } else if (data.remaining !== null && data.resetAfter !== null) {
+      // Responses can arrive after other isolates reserved slots in the same window
+      const remaining = existing && now < existing.reset
+        ? Math.min(existing.remaining, data.remaining)
+        : data.remaining;
+
+      this.buckets.set(key, {
+        limit: data.limit ?? existing?.limit ?? 0,
+        remaining,
+        reset: now + data.resetAfter,
+      });
+    }
+
+    return this.json({ success: true });
+  }
+
+  private bucketKey(route: string, majorParameter: string): string {
+    return `${this.hashes.get(route) ?? `Global(${route})`}:${majorParameter}`;
+  }
+
+  private json(data: unknown): Response {
+    return new Response(JSON.stringify(data), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import type { DurableObjectNamespace } from '@cloudflare/workers-types';
+import type {
+  RateLimitAcquireData,
+  RateLimitAcquireResult,
+  RateLimitStore,
+  RateLimitUpdateData,
+} from '../types.js';
+
+/**
+ * Connects `REST` to a `RateLimitCoordinator` Durable Object through the `rateLimitStore` option
+ */
+export class RateLimitCoordinatorClient implements RateLimitStore {
+  private namespace: DurableObjectNamespace;
+  private stubId: DurableObjectId;
+  private stub?: DurableObjectStub;
+
+  /**
+   * @param namespace - The Durable Object namespace bound to `RateLimitCoordinator`
+   * @param name - Identifies the bot whose limits are shared, such as its application ID
+   */
+  constructor(namespace: DurableObjectNamespace, name: string) {
+    this.namespace = namespace;
+    this.stubId = namespace.idFromName(name);
+  }
+
+  private async getStub(): Promise<DurableObjectStub> {
+    if (!this.stub) {
+      this.stub = this.namespace.get(this.stubId);
+    }
+    return this.stub;
+  }
+
+  async acquire(data: RateLimitAcquireData): Promise<RateLimitAcquireResult | null> {
+    const stub = await this.getStub();
+    const response = await stub.fetch('http://internal/acquire', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to acquire rate limit: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async update(data: RateLimitUpdateData): Promise<void> {
+    const stub = await this.getStub();
+    const response = await stub.fetch('http://internal/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update rate limit: ${response.status}`);
+    }
+  }
+}
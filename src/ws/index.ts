@@ -1,3 +1,5 @@
 export * from './WebSocketHandler.js';
 export * from './GatewayClient.js';
+export * from './RateLimitCoordinator.js';
+export * from './RateLimitCoordinatorClient.js';
 export { GatewayIntentBits, GatewayOpcodes, GatewayDispatchEvents } from 'discord-api-types/v10';
\ No newline at end of file
@@ -171,6 +171,29 @@ describe('API Modules', () => {
         })
       );
     });
+
+    it('should get user guilds with a bearer token', async () => {
+      const auth = { type: 'Bearer' as const, token: 'access-token' };
+
+      await api.users.getGuilds({}, { auth });
+
+      expect(mockRest.get).toHaveBeenCalledWith(
+        Routes.userGuilds(),
+        expect.objectContaining({ auth })
+      );
+    });
+
+    it('should update the application role connection', async () => {
+      const auth = { type: 'Bearer' as const, token: 'access-token' };
+      const body = { platform_name: 'Game', metadata: { level: '10' } };
+
+      await api.users.updateApplicationRoleConnection('111111111', body, { auth });
+
+      expect(mockRest.put).toHaveBeenCalledWith(
+        Routes.userApplicationRoleConnection('111111111'),
+        expect.objectContaining({ auth, body })
+      );
+    });
   });
 
   describe('GuildsAPI', () => {
@@ -300,4 +323,68 @@ describe('API Modules', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('ApplicationCommandsAPI', () => {
+    const applicationId = '111111111';
+    const guildId = '222222222';
+    const commandId = '333333333';
+
+    it('should create a global command', async () => {
+      const commandData = { name: 'ping', description: 'Replies with pong' };
+
+      await api.applicationCommands.createGlobalCommand(applicationId, commandData);
+
+      expect(mockRest.post).toHaveBeenCalledWith(
+        Routes.applicationCommands(applicationId),
+        expect.objectContaining({
+          body: commandData,
+        })
+      );
+    });
+
+    it('should bulk overwrite guild commands', async () => {
+      const commands = [{ name: 'ping', description: 'Replies with pong' }];
+
+      await api.applicationCommands.bulkOverwriteGuildCommands(applicationId, guildId, commands);
+
+      expect(mockRest.put).toHaveBeenCalledWith(
+        Routes.applicationGuildCommands(applicationId, guildId),
+        expect.objectContaining({
+          body: commands,
+        })
+      );
+    });
+
+    it('should get global commands with localizations', async () => {
+      await api.applicationCommands.getGlobalCommands(applicationId, { with_localizations: true });
+
+      expect(mockRest.get).toHaveBeenCalledWith(
+        Routes.applicationCommands(applicationId),
+        expect.objectContaining({
+          query: new URLSearchParams({ with_localizations: 'true' }),
+        })
+      );
+    });
+
+    it('should delete a guild command', async () => {
+      await api.applicationCommands.deleteGuildCommand(applicationId, guildId, commandId);
+
+      expect(mockRest.delete).toHaveBeenCalledWith(
+        Routes.applicationGuildCommand(applicationId, guildId, commandId),
+        expect.any(Object)
+      );
+    });
+
+    it('should edit command permissions with a bearer token', async () => {
+      const auth = { type: 'Bearer' as const, token: 'access-token' };
+      const body = { permissions: [{ id: guildId, type: 1, permission: false }] };
+
+      await api.applicationCommands.editCommandPermissions(applicationId, guildId, commandId, body, { auth });
+
+      expect(mockRest.put).toHaveBeenCalledWith(
+        Routes.applicationCommandPermissions(applicationId, guildId, commandId),
+        expect.objectContaining({ auth, body })
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  InteractionResponseType,
+  InteractionType,
+  Locale,
+} from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import {
+  createAutocompleteHandler,
+  fuzzyScore,
+  kvPrefixSource,
+  rankChoices,
+} from '../src/interactions/autocomplete';
+import { InteractionRouter } from '../src/interactions/InteractionRouter';
+import { REST } from '../src/rest/REST';
+import { interaction } from './helpers';
+
+function autocomplete(option: string, value: string, locale = Locale.EnglishUS) {
+  return interaction(InteractionType.ApplicationCommandAutocomplete, {
+    id: '2',
+    name: 'weather',
+    type: ApplicationCommandType.ChatInput,
+    options: [{ type: ApplicationCommandOptionType.String, name: option, value, focused: true }],
+  }, { locale });
+}
+
+const result = (choices: unknown[]) => ({
+  type: InteractionResponseType.ApplicationCommandAutocompleteResult,
+  data: { choices },
+});
+
+describe('autocomplete', () => {
+  let api: API;
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+  });
+
+  it('should rank choices of the focused option against the query', async () => {
+    const router = new InteractionRouter().autocomplete('weather', createAutocompleteHandler({
+      city: ['Kyoto', 'Tokyo', 'Osaka', 'Tokushima'],
+      country: ['Japan'],
+    }));
+
+    await expect(router.handle(autocomplete('city', 'to'), { api, env: {} })).resolves.toEqual(result([
+      { name: 'Tokyo', value: 'Tokyo' },
+      { name: 'Tokushima', value: 'Tokushima' },
+      { name: 'Kyoto', value: 'Kyoto' },
+    ]));
+    await expect(router.handle(autocomplete('unknown', 'to'), { api, env: {} })).resolves.toEqual(result([]));
+  });
+
+  it('should pass the query and env to async sources', async () => {
+    const source = vi.fn(async ({ query, env }: { query: string; env: { PREFIX: string } }) => [`${env.PREFIX}${query}`]);
+    const router = new InteractionRouter<{ PREFIX: string }>()
+      .autocomplete('weather', createAutocompleteHandler({ city: source }));
+
+    await expect(router.handle(autocomplete('city', ' tok '), { api, env: { PREFIX: 'city:' } }))
+      .resolves.toEqual(result([{ name: 'city:tok', value: 'city:tok' }]));
+    expect(source).toHaveBeenCalledWith(expect.objectContaining({ query: 'tok', option: 'city', locale: Locale.EnglishUS }));
+  });
+
+  it('should answer with no choices when a source fails or is too slow', async () => {
+    let signal!: AbortSignal;
+    const onError = vi.fn();
+    const router = new InteractionRouter().autocomplete('weather', createAutocompleteHandler({
+      city: () => {
+        throw new Error('boom');
+      },
+      country: (request) => {
+        signal = request.signal;
+        return new Promise(() => {});
+      },
+    }, { timeout: 10, onError }));
+
+    await expect(router.handle(autocomplete('city', 'to'), { api, env: {} })).resolves.toEqual(result([]));
+    await expect(router.handle(autocomplete('country', 'ja'), { api, env: {} })).resolves.toEqual(result([]));
+    expect(signal.aborted).toBe(true);
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledWith(new Error('boom'), expect.objectContaining({ option: 'city', query: 'to' }));
+  });
+
+  it('should list KV keys starting with the query', async () => {
+    const list = vi.fn().mockResolvedValue({
+      keys: [{ name: 'city:tokyo', metadata: { name: 'Tokyo' } }, { name: 'city:tokushima' }],
+      list_complete: true,
+    });
+    const router = new InteractionRouter<{ CITIES: any }>().autocomplete('weather', createAutocompleteHandler({
+      city: kvPrefixSource((env: { CITIES: any }) => env.CITIES, { prefix: 'city:', lowercase: true }),
+    }));
+
+    await expect(router.handle(autocomplete('city', 'Tok'), { api, env: { CITIES: { list } } })).resolves.toEqual(result([
+      { name: 'Tokyo', value: 'tokyo' },
+      { name: 'tokushima', value: 'tokushima' },
+    ]));
+    expect(list).toHaveBeenCalledWith({ prefix: 'city:tok', limit: 25 });
+  });
+
+  it('should localize, truncate and limit choices', () => {
+    const choices = [
+      { name: 'Tokyo', name_localizations: { [Locale.Japanese]: '東京' }, value: 'tokyo' },
+      { name: 'a'.repeat(150), value: 'long' },
+      { name: 'Too long value', value: 'v'.repeat(101) },
+      ...Array.from({ length: 30 }, (_, i) => i),
+    ];
+
+    const ranked = rankChoices(choices, '', { locale: Locale.Japanese });
+
+    expect(ranked).toHaveLength(25);
+    expect(ranked[0]).toEqual({ name: '東京', value: 'tokyo' });
+    expect(ranked[1].name).toHaveLength(100);
+    expect(ranked[1].name.endsWith('…')).toBe(true);
+    expect(ranked.find((choice) => choice.name === 'Too long value')).toBeUndefined();
+    expect(rankChoices(choices, '東', { locale: Locale.Japanese })).toEqual([{ name: '東京', value: 'tokyo' }]);
+  });
+
+  it('should score matches by how closely they match', () => {
+    expect(fuzzyScore('Tokyo', 'tokyo')).toBeGreaterThan(fuzzyScore('Tokyo Tower', 'tokyo'));
+    expect(fuzzyScore('Tokyo Tower', 'tokyo')).toBeGreaterThan(fuzzyScore('New Tokyo', 'tokyo'));
+    expect(fuzzyScore('New Tokyo', 'tokyo')).toBeGreaterThan(fuzzyScore('Kyotokyo', 'tokyo'));
+    expect(fuzzyScore('Kyotokyo', 'tokyo')).toBeGreaterThan(fuzzyScore('Tsukuba Kyoto', 'tkyo'));
+    expect(fuzzyScore('Zürich', 'zur')).toBeGreaterThan(0);
+    expect(fuzzyScore('Osaka', 'tokyo')).toBe(0);
+  });
+});
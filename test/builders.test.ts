@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  ButtonStyle,
+  ChannelType,
+  ComponentType,
+  InteractionContextType,
+  Locale,
+  PermissionFlagsBits,
+  TextInputStyle,
+} from 'discord-api-types/v10';
+import {
+  ActionRowBuilder,
+  BuilderValidationError,
+  ButtonBuilder,
+  ChannelSelectMenuBuilder,
+  ContextMenuCommandBuilder,
+  ModalBuilder,
+  SlashCommandBuilder,
+  SlashCommandStringOption,
+  StringSelectMenuBuilder,
+  StringSelectMenuOptionBuilder,
+  TextInputBuilder,
+  UserSelectMenuBuilder,
+} from '../src/builders/index';
+
+describe('command builders', () => {
+  it('should build chat input commands with options', () => {
+    const command = new SlashCommandBuilder()
+      .setName('ban')
+      .setDescription('Bans a user')
+      .setDescriptionLocalization(Locale.Japanese, 'ユーザーをBANします')
+      .setDefaultMemberPermissions(PermissionFlagsBits.BanMembers)
+      .setContexts(InteractionContextType.Guild)
+      .addUserOption((option) => option.setName('user').setDescription('User to ban').setRequired())
+      .addIntegerOption((option) => option.setName('days').setDescription('Days of messages to delete').setMinValue(0).setMaxValue(7))
+      .addStringOption(new SlashCommandStringOption()
+        .setName('reason')
+        .setDescription('Reason')
+        .addChoices({ name: 'Spam', value: 'spam' }))
+      .toJSON();
+
+    expect(command).toEqual({
+      type: ApplicationCommandType.ChatInput,
+      name: 'ban',
+      description: 'Bans a user',
+      description_localizations: { ja: 'ユーザーをBANします' },
+      default_member_permissions: '4',
+      contexts: [InteractionContextType.Guild],
+      options: [
+        { type: ApplicationCommandOptionType.User, name: 'user', description: 'User to ban', required: true },
+        { type: ApplicationCommandOptionType.Integer, name: 'days', description: 'Days of messages to delete', min_value: 0, max_value: 7 },
+        { type: ApplicationCommandOptionType.String, name: 'reason', description: 'Reason', choices: [{ name: 'Spam', value: 'spam' }] },
+      ],
+    });
+  });
+
+  it('should build subcommands and groups', () => {
+    const command = new SlashCommandBuilder()
+      .setName('config')
+      .setDescription('Configures the bot')
+      .addSubcommandGroup((group) => group
+        .setName('roles')
+        .setDescription('Role settings')
+        .addSubcommand((subcommand) => subcommand
+          .setName('add')
+          .setDescription('Adds a role')
+          .addRoleOption((option) => option.setName('role').setDescription('Role').setRequired())))
+      .addSubcommand((subcommand) => subcommand.setName('reset').setDescription('Resets all settings'))
+      .toJSON();
+
+    expect(command.options).toEqual([
+      {
+        type: ApplicationCommandOptionType.SubcommandGroup,
+        name: 'roles',
+        description: 'Role settings',
+        options: [{
+          type: ApplicationCommandOptionType.Subcommand,
+          name: 'add',
+          description: 'Adds a role',
+          options: [{ type: ApplicationCommandOptionType.Role, name: 'role', description: 'Role', required: true }],
+        }],
+      },
+      { type: ApplicationCommandOptionType.Subcommand, name: 'reset', description: 'Resets all settings' },
+    ]);
+  });
+
+  it('should reject commands Discord would not accept', () => {
+    const base = () => new SlashCommandBuilder().setName('test').setDescription('Test');
+
+    expect(() => base().setName('Test').toJSON()).toThrow(BuilderValidationError);
+    expect(() => base().setDescription('a'.repeat(101)).toJSON()).toThrow('must be 1 to 100 characters long, got 101');
+    expect(() => base()
+      .addStringOption((option) => option.setName('a').setDescription('A'))
+      .addStringOption((option) => option.setName('b').setDescription('B').setRequired())
+      .toJSON()).toThrow('required option "b" must come before the optional ones');
+    expect(() => base()
+      .addStringOption((option) => option.setName('a').setDescription('A'))
+      .addSubcommand((subcommand) => subcommand.setName('b').setDescription('B'))
+      .toJSON()).toThrow('subcommands cannot be mixed with other options');
+    expect(() => base()
+      .addStringOption((option) => option.setName('a').setDescription('A').setAutocomplete().addChoices({ name: 'A', value: 'a' }))
+      .toJSON()).toThrow('cannot be combined with autocomplete');
+    expect(() => base()
+      .addIntegerOption((option) => option.setName('a').setDescription('A').setMinValue(1.5))
+      .toJSON()).toThrow('1.5 is not a valid integer');
+  });
+
+  it('should limit the combined length of a command', () => {
+    const command = new SlashCommandBuilder().setName('long').setDescription('d'.repeat(100));
+    for (let i = 0; i < 25; i++) {
+      command.addStringOption((option) => option
+        .setName(`option-${i}`)
+        .setDescription('d'.repeat(100))
+        .addChoices({ name: 'c'.repeat(100), value: 'v'.repeat(100) }));
+    }
+
+    expect(() => command.toJSON()).toThrow('more than the limit of 4000');
+  });
+
+  it('should build context menu commands', () => {
+    expect(new ContextMenuCommandBuilder().setName('Report Message').setType(ApplicationCommandType.Message).toJSON())
+      .toEqual({ name: 'Report Message', type: ApplicationCommandType.Message });
+    expect(() => new ContextMenuCommandBuilder().setName('Report').toJSON()).toThrow('must be User or Message');
+  });
+});
+
+describe('component builders', () => {
+  it('should build action rows of buttons and select menus', () => {
+    const buttons = new ActionRowBuilder()
+      .addComponents(
+        new ButtonBuilder().setCustomId('confirm').setLabel('Confirm').setStyle(ButtonStyle.Success),
+        new ButtonBuilder().setURL('https://discord.com').setEmoji('🔗'),
+      )
+      .toJSON();
+    const select = new ActionRowBuilder()
+      .addComponents(new StringSelectMenuBuilder()
+        .setCustomId('color')
+        .addOptions(
+          new StringSelectMenuOptionBuilder().setLabel('Red').setValue('red').setDefault(),
+          { label: 'Blue', value: 'blue' },
+        ))
+      .toJSON();
+
+    expect(buttons).toEqual({
+      type: ComponentType.ActionRow,
+      components: [
+        { type: ComponentType.Button, custom_id: 'confirm', label: 'Confirm', style: ButtonStyle.Success },
+        { type: ComponentType.Button, url: 'https://discord.com', style: ButtonStyle.Link, emoji: { name: '🔗' } },
+      ],
+    });
+    expect(select.components[0]).toEqual({
+      type: ComponentType.StringSelect,
+      custom_id: 'color',
+      options: [{ label: 'Red', value: 'red', default: true }, { label: 'Blue', value: 'blue' }],
+    });
+  });
+
+  it('should build auto-populated select menus with default values', () => {
+    expect(new ChannelSelectMenuBuilder()
+      .setCustomId('channel')
+      .addChannelTypes(ChannelType.GuildText)
+      .addDefaultChannels('1')
+      .toJSON()).toEqual({
+      type: ComponentType.ChannelSelect,
+      custom_id: 'channel',
+      channel_types: [ChannelType.GuildText],
+      default_values: [{ type: 'channel', id: '1' }],
+    });
+    expect(() => new UserSelectMenuBuilder().setCustomId('users').addDefaultUsers('1', '2').toJSON())
+      .toThrow('default values');
+  });
+
+  it('should reject components Discord would not accept', () => {
+    expect(() => new ButtonBuilder().setLabel('No style').setCustomId('a').toJSON()).toThrow('button style');
+    expect(() => new ButtonBuilder().setStyle(ButtonStyle.Primary).setLabel('No id').toJSON()).toThrow('button custom id');
+    expect(() => new ButtonBuilder().setURL('https://discord.com').setCustomId('a').setLabel('Link').toJSON())
+      .toThrow('must have a URL and no custom id');
+    expect(() => new ButtonBuilder().setCustomId('a').setStyle(ButtonStyle.Primary).setLabel('l'.repeat(81)).toJSON())
+      .toThrow('at most 80 characters');
+    expect(() => new StringSelectMenuBuilder().setCustomId('empty').toJSON()).toThrow('options');
+    expect(() => new ActionRowBuilder()
+      .addComponents(
+        new StringSelectMenuBuilder().setCustomId('a').addOptions({ label: 'A', value: 'a' }),
+        new ButtonBuilder().setCustomId('b').setLabel('B').setStyle(ButtonStyle.Primary),
+      )
+      .toJSON()).toThrow('need a row of their own');
+    expect(() => new ActionRowBuilder().toJSON()).toThrow('action row components');
+  });
+});
+
+describe('modal builders', () => {
+  it('should wrap text inputs in action rows', () => {
+    const modal = new ModalBuilder()
+      .setCustomId('feedback')
+      .setTitle('Feedback')
+      .addComponents(new TextInputBuilder()
+        .setCustomId('message')
+        .setLabel('Message')
+        .setStyle(TextInputStyle.Paragraph)
+        .setMaxLength(1000))
+      .toJSON();
+
+    expect(modal).toEqual({
+      custom_id: 'feedback',
+      title: 'Feedback',
+      components: [{
+        type: ComponentType.ActionRow,
+        components: [{
+          type: ComponentType.TextInput,
+          custom_id: 'message',
+          label: 'Message',
+          style: TextInputStyle.Paragraph,
+          max_length: 1000,
+        }],
+      }],
+    });
+  });
+
+  it('should reject modals Discord would not accept', () => {
+    const input = () => new TextInputBuilder().setCustomId('a').setLabel('A').setStyle(TextInputStyle.Short);
+
+    expect(() => new ModalBuilder().setCustomId('m').setTitle('t'.repeat(46)).addComponents(input()).toJSON())
+      .toThrow('title');
+    expect(() => new ModalBuilder().setCustomId('m').setTitle('Title').toJSON()).toThrow('components');
+    expect(() => input().setMinLength(10).setMaxLength(5).toJSON()).toThrow('must not be greater than max_length');
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, expectTypeOf, beforeEach, vi } from 'vitest';
+import {
+  ComponentType,
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+} from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import { CustomIdCodec } from '../src/interactions/customId';
+import { CustomIdLengthError } from '../src/interactions/CustomIdLengthError';
+import { KVCustomIdStore, type CustomIdStore } from '../src/interactions/CustomIdStore';
+import { InteractionRouter } from '../src/interactions/InteractionRouter';
+import { REST } from '../src/rest/REST';
+import { interaction } from './helpers';
+
+function memoryStore(): CustomIdStore & { entries: Map<string, string> } {
+  const entries = new Map<string, string>();
+  return {
+    entries,
+    get: async (key) => entries.get(key) ?? null,
+    put: async (key, value) => void entries.set(key, value),
+  };
+}
+
+function button(customId: string) {
+  return interaction(InteractionType.MessageComponent, { custom_id: customId, component_type: ComponentType.Button });
+}
+
+const fields = { page: 'integer', user: 'snowflake', sort: ['new', 'top'], query: 'string', open: 'boolean' } as const;
+const state = { page: 12, user: '80351110224678912', sort: 'top', query: 'a:b;c%d~', open: true } as const;
+
+describe('CustomIdCodec', () => {
+  it('should round-trip compact typed state', async () => {
+    const codec = new CustomIdCodec('page', { fields });
+
+    const customId = await codec.encode({ ...state });
+
+    expect(customId).toBe('page:1:c;lz63ag7l4ao;1;a%3Ab%3Bc%25d%7E;1');
+    const result = await codec.decode(customId);
+    expect(result).toEqual({ valid: true, state });
+    if (result.valid) {
+      expectTypeOf(result.state.sort).toEqualTypeOf<'new' | 'top'>();
+      expectTypeOf(result.state.page).toEqualTypeOf<number>();
+    }
+  });
+
+  it('should sign custom ids and reject tampered ones', async () => {
+    const codec = new CustomIdCodec('page', {
+      fields: { page: 'integer' },
+      secret: (env: { SECRET: string }) => env.SECRET,
+    });
+    const env = { SECRET: 'secret' };
+
+    const customId = await codec.encode({ page: 1 }, env);
+
+    expect(customId).toMatch(/^page:1:1:[\w-]{11}$/);
+    await expect(codec.decode(customId, env)).resolves.toEqual({ valid: true, state: { page: 1 } });
+    await expect(codec.decode(customId.replace('page:1:1:', 'page:1:2:'), env))
+      .resolves.toEqual({ valid: false, reason: 'invalid_signature' });
+    await expect(codec.decode('page:1:2', env)).resolves.toEqual({ valid: false, reason: 'invalid_signature' });
+    await expect(codec.decode(customId, { SECRET: 'other' }))
+      .resolves.toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('should move state too large for a custom id into the store', async () => {
+    const store = memoryStore();
+    const codec = new CustomIdCodec('search', { fields: { query: 'string' }, store });
+    const query = 'q'.repeat(200);
+
+    const customId = await codec.encode({ query });
+
+    expect(customId).toMatch(/^search:1:~[\w-]{12}$/);
+    expect([...store.entries.values()]).toEqual([query]);
+    await expect(codec.decode(customId)).resolves.toEqual({ valid: true, state: { query } });
+    await expect(codec.decode('search:1:~missing')).resolves.toEqual({ valid: false, reason: 'expired' });
+    await expect(new CustomIdCodec('search', { fields: { query: 'string' } }).encode({ query }))
+      .rejects.toThrow(CustomIdLengthError);
+  });
+
+  it('should store overflowing state in KV', async () => {
+    const namespace = { get: vi.fn(), put: vi.fn() };
+    const store = new KVCustomIdStore(namespace as any, { ttl: 30 });
+
+    await store.put('key', 'value');
+    await store.get('key');
+
+    expect(namespace.put).toHaveBeenCalledWith('custom-id:key', 'value', { expirationTtl: 60 });
+    expect(namespace.get).toHaveBeenCalledWith('custom-id:key');
+  });
+
+  it('should migrate state of earlier versions', async () => {
+    const v1 = new CustomIdCodec('page', { fields: { page: 'integer' } });
+    const v2 = new CustomIdCodec('page', {
+      version: 2,
+      fields: { page: 'integer', sort: ['new', 'top'] },
+      migrations: { 1: { fields: { page: 'integer' }, migrate: ({ page }) => ({ page: page as number, sort: 'new' }) } },
+    });
+    const v3 = new CustomIdCodec('page', { version: 3, fields: { page: 'integer' } });
+
+    const customId = await v1.encode({ page: 3 });
+
+    await expect(v2.decode(customId)).resolves.toEqual({ valid: true, state: { page: 3, sort: 'new' } });
+    await expect(v3.decode(customId)).resolves.toEqual({ valid: false, reason: 'unknown_version' });
+    await expect(v1.decode('page:1:x;y')).resolves.toEqual({ valid: false, reason: 'malformed' });
+  });
+
+  it('should reject values that do not match their field', async () => {
+    const codec = new CustomIdCodec('page', { fields });
+
+    await expect(codec.encode({ ...state, page: 1.5 })).rejects.toThrow(TypeError);
+    await expect(codec.encode({ ...state, sort: 'old' as 'new' })).rejects.toThrow('Custom id field "sort"');
+  });
+});
+
+describe('InteractionRouter with CustomIdCodec', () => {
+  let api: API;
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+  });
+
+  it('should dispatch decoded state to the route of the codec', async () => {
+    const env = { SECRET: 'secret' };
+    const codec = new CustomIdCodec('page', { fields: { page: 'integer' }, secret: (env: { SECRET: string }) => env.SECRET });
+    const router = new InteractionRouter<{ SECRET: string }>()
+      .component('page:other', () => {
+        throw new Error('should not be called');
+      })
+      .component(codec, (interaction, { state }) => {
+        expectTypeOf(state.page).toEqualTypeOf<number>();
+        return { type: InteractionResponseType.UpdateMessage, data: { content: `Page ${state.page}` } };
+      });
+
+    await expect(router.handle(button(await codec.encode({ page: 4 }, env)), { api, env })).resolves.toEqual({
+      type: InteractionResponseType.UpdateMessage,
+      data: { content: 'Page 4' },
+    });
+    await expect(router.handle(button('page:1:4:forged'), { api, env })).resolves.toEqual({
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: 'This component is no longer valid.', flags: MessageFlags.Ephemeral },
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ApplicationCommandType,
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+  RESTJSONErrorCodes,
+} from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import {
+  createDeferredResponse,
+  deferInteraction,
+  deferToQueue,
+  processDeferredInteractions,
+  type DeferredInteractionMessage,
+} from '../src/interactions/deferred';
+import { Interaction } from '../src/interactions/Interaction';
+import { InteractionRouter } from '../src/interactions/InteractionRouter';
+import { DiscordAPIError } from '../src/rest/DiscordAPIError';
+import { REST } from '../src/rest/REST';
+import { interaction } from './helpers';
+
+const raw = interaction(InteractionType.ApplicationCommand, {
+  id: '2',
+  name: 'report',
+  type: ApplicationCommandType.ChatInput,
+});
+
+describe('deferred responses', () => {
+  let api: API;
+  let pending: Promise<unknown>[];
+  const ctx = { waitUntil: (promise: Promise<unknown>) => void pending.push(promise) };
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+    pending = [];
+    vi.spyOn(api.interactions, 'reply').mockResolvedValue(undefined as never);
+    vi.spyOn(api.interactions, 'editReply').mockResolvedValue({} as any);
+    vi.spyOn(api.interactions, 'followUp').mockResolvedValue({} as any);
+  });
+
+  it('should respond before the task finishes and keep the Worker alive for it', async () => {
+    let finish!: () => void;
+    const task = vi.fn(async (interaction: Interaction) => {
+      await new Promise<void>((resolve) => {
+        finish = resolve;
+      });
+      await interaction.editReply({ content: 'Report ready' });
+    });
+
+    const response = await createDeferredResponse(api, raw, ctx, task, { ephemeral: true });
+
+    await expect(response.json()).resolves.toEqual({
+      type: InteractionResponseType.DeferredChannelMessageWithSource,
+      data: { flags: MessageFlags.Ephemeral },
+    });
+    expect(pending).toHaveLength(1);
+    expect(api.interactions.editReply).not.toHaveBeenCalled();
+
+    finish();
+    await Promise.all(pending);
+    expect(api.interactions.editReply).toHaveBeenCalledWith('111111111', 'interaction-token', { content: 'Report ready' });
+  });
+
+  it('should retry edits that reach Discord before the deferral', async () => {
+    vi.useFakeTimers();
+    const unknownWebhook = new DiscordAPIError(
+      { code: RESTJSONErrorCodes.UnknownWebhook, message: 'Unknown Webhook' },
+      RESTJSONErrorCodes.UnknownWebhook,
+      404,
+      'PATCH',
+      'https://discord.com/api/v10/webhooks/111111111/interaction-token/messages/@original',
+      { files: undefined, json: undefined },
+    );
+    vi.mocked(api.interactions.editReply).mockRejectedValueOnce(unknownWebhook);
+
+    try {
+      await createDeferredResponse(api, raw, ctx, async (interaction) => {
+        await interaction.editReply({ content: 'Report ready' });
+      });
+      await vi.runAllTimersAsync();
+      await Promise.all(pending);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(api.interactions.editReply).toHaveBeenCalledTimes(2);
+    expect(api.interactions.followUp).not.toHaveBeenCalled();
+
+    // Once the initial response was sent through the API, the same error is final
+    vi.mocked(api.interactions.editReply).mockRejectedValueOnce(unknownWebhook);
+    const interaction = new Interaction(api, raw);
+    await interaction.deferReply();
+    await expect(interaction.editReply({ content: 'Report ready' })).rejects.toBe(unknownWebhook);
+  });
+
+  it('should replace the loading message with an error when the task fails', async () => {
+    const onError = vi.fn();
+    const failure = new Error('boom');
+
+    await createDeferredResponse(api, raw, ctx, async () => {
+      throw failure;
+    }, { errorMessage: (error) => `Failed: ${(error as Error).message}`, onError });
+    await Promise.all(pending);
+
+    expect(api.interactions.editReply).toHaveBeenCalledWith('111111111', 'interaction-token', { content: 'Failed: boom' });
+    expect(onError).toHaveBeenCalledWith(failure, expect.any(Interaction));
+  });
+
+  it('should report errors sending the error message', async () => {
+    const onError = vi.fn();
+    const replyError = new Error('unavailable');
+    vi.mocked(api.interactions.editReply).mockRejectedValue(replyError);
+
+    await createDeferredResponse(api, raw, ctx, async () => {
+      throw new Error('boom');
+    }, { onError });
+    await Promise.all(pending);
+
+    expect(onError.mock.calls.map(([error]) => (error as Error).message)).toEqual(['boom', 'unavailable']);
+  });
+
+  it('should settle the background task when the error handling throws', async () => {
+    const onError = vi.fn((_error: unknown) => {
+      throw new Error('reporting failed');
+    });
+
+    await createDeferredResponse(api, raw, ctx, async () => {
+      throw new Error('boom');
+    }, { onError });
+    await createDeferredResponse(api, raw, ctx, async () => {
+      throw new Error('boom');
+    }, {
+      errorMessage: () => {
+        throw new Error('no message');
+      },
+      onError,
+    });
+
+    await expect(Promise.all(pending)).resolves.toBeDefined();
+    expect(api.interactions.editReply).toHaveBeenCalledOnce();
+    expect(onError.mock.calls.map(([error]) => (error as Error).message)).toEqual(['boom', 'boom', 'no message']);
+  });
+
+  it('should defer from router handlers through the execution context', async () => {
+    const router = new InteractionRouter()
+      .command('report', (interaction, { ctx }) => deferInteraction(interaction, ctx!, async (deferred) => {
+        await deferred.reply({ content: 'done' });
+      }));
+
+    const response = await router.handle(raw, { api, env: {}, ctx });
+    await Promise.all(pending);
+
+    expect(response).toEqual({ type: InteractionResponseType.DeferredChannelMessageWithSource });
+    expect(api.interactions.reply).not.toHaveBeenCalled();
+    expect(api.interactions.editReply).toHaveBeenCalledWith('111111111', 'interaction-token', { content: 'done' });
+  });
+
+  it('should hand jobs to a queue and finish them in the consumer', async () => {
+    const queue = { send: vi.fn(), sendBatch: vi.fn() };
+    const interaction = new Interaction(api, raw);
+
+    await deferToQueue(interaction, queue, { reportId: 7 });
+
+    expect(api.interactions.reply).toHaveBeenCalledOnce();
+    const message = { body: queue.send.mock.calls[0][0] as DeferredInteractionMessage<{ reportId: number }>, ack: vi.fn() };
+    expect(message.body).toEqual({ interaction: raw, ephemeral: false, data: { reportId: 7 } });
+
+    const failing = { body: message.body, ack: vi.fn() };
+    await processDeferredInteractions(
+      { messages: [message, failing] } as unknown as MessageBatch<DeferredInteractionMessage<{ reportId: number }>>,
+      api,
+      vi.fn()
+        .mockImplementationOnce(async (deferred: Interaction, data: { reportId: number }) => {
+          await deferred.reply({ content: `Report ${data.reportId}` });
+        })
+        .mockRejectedValueOnce(new Error('boom')),
+    );
+
+    expect(api.interactions.editReply).toHaveBeenCalledWith('111111111', 'interaction-token', { content: 'Report 7' });
+    expect(api.interactions.editReply).toHaveBeenCalledWith('111111111', 'interaction-token', {
+      content: 'Something went wrong while handling this interaction.',
+    });
+    expect(message.ack).toHaveBeenCalled();
+    expect(failing.ack).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BuilderValidationError,
+  Colors,
+  EmbedBuilder,
+  TimestampStyles,
+  codeBlock,
+  commandMention,
+  embedLength,
+  escapeMarkdown,
+  formatEmoji,
+  groupEmbeds,
+  inlineCode,
+  quote,
+  resolveColor,
+  roleMention,
+  time,
+  userMention,
+} from '../src/builders/index';
+
+describe('EmbedBuilder', () => {
+  it('should build embeds', () => {
+    const embed = new EmbedBuilder()
+      .setTitle('Deploy finished')
+      .setColor('#57F287')
+      .setAuthor({ name: 'CI', iconURL: 'https://example.com/ci.png' })
+      .addFields({ name: 'Duration', value: '42s', inline: true })
+      .setFooter({ text: 'main' })
+      .setTimestamp(Date.UTC(2024, 0, 1))
+      .toJSON();
+
+    expect(embed).toEqual({
+      title: 'Deploy finished',
+      color: Colors.Green,
+      author: { name: 'CI', icon_url: 'https://example.com/ci.png' },
+      fields: [{ name: 'Duration', value: '42s', inline: true }],
+      footer: { text: 'main' },
+      timestamp: '2024-01-01T00:00:00.000Z',
+    });
+    expect(new EmbedBuilder(embed).setTitle(null).setFooter(null).toJSON()).not.toHaveProperty('title');
+  });
+
+  it('should resolve colors', () => {
+    expect(resolveColor(0x5865f2)).toBe(0x5865f2);
+    expect(resolveColor('#f00')).toBe(0xff0000);
+    expect(resolveColor('00ff00')).toBe(0x00ff00);
+    expect(resolveColor('Blurple')).toBe(Colors.Blurple);
+    expect(resolveColor('darkred')).toBe(Colors.DarkRed);
+    expect(resolveColor([255, 128, 0])).toBe(0xff8000);
+    expect(() => resolveColor('#12345')).toThrow(BuilderValidationError);
+    expect(() => resolveColor(0x1000000)).toThrow(BuilderValidationError);
+    expect(() => resolveColor([256, 0, 0])).toThrow(BuilderValidationError);
+  });
+
+  it('should reject embeds exceeding the limits', () => {
+    expect(() => new EmbedBuilder().setTitle('t'.repeat(257)).toJSON()).toThrow('Invalid embed title');
+    expect(() => new EmbedBuilder().addFields(...Array.from({ length: 26 }, () => ({ name: 'n', value: 'v' }))).toJSON())
+      .toThrow('Invalid embed fields: must have at most 25 entries, got 26');
+    expect(() => new EmbedBuilder().addFields({ name: 'Empty', value: '' }).toJSON()).toThrow('Invalid embed field "Empty" value');
+    expect(() => new EmbedBuilder().setTimestamp('yesterday')).toThrow('Invalid embed timestamp');
+    expect(() => new EmbedBuilder()
+      .setDescription('d'.repeat(4000))
+      .addFields(...Array.from({ length: 3 }, () => ({ name: 'n', value: 'v'.repeat(1000) })))
+      .toJSON()).toThrow('Invalid embed: must have at most 6000 characters of text, got 7003');
+  });
+
+  it('should split long descriptions across embeds', () => {
+    const line = 'x'.repeat(99);
+    const description = Array.from({ length: 100 }, () => line).join('\n');
+    const embeds = new EmbedBuilder()
+      .setTitle('Log')
+      .setColor('Red')
+      .setDescription(description)
+      .setFooter({ text: 'end' })
+      .split();
+
+    expect(embeds).toHaveLength(3);
+    expect(embeds.map((embed) => embed.description!.length)).toEqual([3999, 3999, 1999]);
+    expect(embeds.map((embed) => embed.description).join('\n')).toBe(description);
+    expect(embeds.map(({ title, footer, color }) => ({ title, footer, color }))).toEqual([
+      { title: 'Log', footer: undefined, color: Colors.Red },
+      { title: undefined, footer: undefined, color: Colors.Red },
+      { title: undefined, footer: { text: 'end' }, color: Colors.Red },
+    ]);
+    expect(new EmbedBuilder().setDescription('short').split()).toEqual([{ description: 'short' }]);
+  });
+
+  it('should count the title against the last embed when it is also the first one', () => {
+    const description = Array.from({ length: 40 }, () => 'x'.repeat(99)).join('\n');
+    const builder = new EmbedBuilder()
+      .setTitle('t'.repeat(256))
+      .setDescription(description)
+      .addFields({ name: 'ab', value: 'v'.repeat(900) }, { name: 'cd', value: 'v'.repeat(900) });
+
+    const embeds = builder.split();
+
+    expect(description).toHaveLength(3999);
+    expect(embeds).toHaveLength(2);
+    expect(embeds.map((embed) => embed.description).join('\n')).toBe(description);
+    expect(embeds[0].title).toHaveLength(256);
+    expect(embeds[1].fields).toHaveLength(2);
+    expect(embeds.every((embed) => embedLength(embed) <= 6000)).toBe(true);
+  });
+
+  it('should group embeds into messages within the limits', () => {
+    const embeds = Array.from({ length: 12 }, () => ({ description: 'd'.repeat(1000) }));
+
+    expect(groupEmbeds(embeds).map((message) => message.length)).toEqual([6, 6]);
+    expect(groupEmbeds(Array.from({ length: 11 }, () => ({ title: 't' }))).map((message) => message.length)).toEqual([10, 1]);
+    expect(embedLength({ title: 'ab', fields: [{ name: 'c', value: 'de' }], footer: { text: 'f' } })).toBe(6);
+  });
+});
+
+describe('formatters', () => {
+  it('should format mentions and timestamps', () => {
+    expect(userMention('123')).toBe('<@123>');
+    expect(roleMention('123')).toBe('<@&123>');
+    expect(commandMention('admin ban', '123')).toBe('</admin ban:123>');
+    expect(formatEmoji('party', '123', true)).toBe('<a:party:123>');
+    expect(time(new Date(Date.UTC(2024, 0, 1)), TimestampStyles.RelativeTime)).toBe('<t:1704067200:R>');
+    expect(time(1704067200)).toBe('<t:1704067200>');
+  });
+
+  it('should format code and quotes', () => {
+    expect(inlineCode('npm i')).toBe('`npm i`');
+    expect(inlineCode('a`b')).toBe('`` a`b ``');
+    expect(codeBlock('const a = 1;', 'ts')).toBe('```ts\nconst a = 1;\n```');
+    expect(codeBlock('```')).toBe('```\n`\u200b``\n```');
+    expect(quote('a\nb')).toBe('> a\n> b');
+  });
+
+  it('should escape Markdown', () => {
+    expect(escapeMarkdown('**bold** _it_ ~~s~~ `c` ||sp|| [l](u) \\')).toBe(
+      '\\*\\*bold\\*\\* \\_it\\_ \\~\\~s\\~\\~ \\`c\\` \\|\\|sp\\|\\| \\[l\\](u) \\\\',
+    );
+    expect(escapeMarkdown('# Title\n> quote\n- item\n1. first\nnot # heading')).toBe(
+      '\\# Title\n\\> quote\n\\- item\n1\\. first\nnot # heading',
+    );
+  });
+
+  it('should escape ordered lists at their dot', () => {
+    expect(escapeMarkdown('1. first\n  12. nested\nversion 1. not a list')).toBe(
+      '1\\. first\n  12\\. nested\nversion 1. not a list',
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import type { APIInteraction, InteractionType } from 'discord-api-types/v10';
+
+/**
+ * A JSON response as Discord's API sends it, for stubbing `fetch` or `makeRequest`
+ */
+export function jsonResponse(data: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+/**
+ * A raw interaction as Discord sends it, with the ids and token filled in
+ *
+ * @param fields - Further top-level fields, e.g. `member` or `locale`
+ */
+export function interaction<T extends APIInteraction = APIInteraction>(
+  type: InteractionType,
+  data?: object,
+  fields: Record<string, unknown> = {},
+): T {
+  return {
+    id: '1',
+    application_id: '111111111',
+    token: 'interaction-token',
+    version: 1,
+    type,
+    data,
+    ...fields,
+  } as unknown as T;
+}
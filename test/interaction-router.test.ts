@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  ComponentType,
+  InteractionResponseType,
+  InteractionType,
+} from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import { InteractionRouter } from '../src/interactions/InteractionRouter';
+import { REST } from '../src/rest/REST';
+import { interaction } from './helpers';
+
+function chatInput(name: string, options?: unknown[]) {
+  return interaction(InteractionType.ApplicationCommand, { id: '2', name, type: ApplicationCommandType.ChatInput, options });
+}
+
+const reply = (content: string) => ({
+  type: InteractionResponseType.ChannelMessageWithSource as const,
+  data: { content },
+});
+
+describe('InteractionRouter', () => {
+  let api: API;
+  let router: InteractionRouter<{ GREETING: string }>;
+  const env = { GREETING: 'hi' };
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+    router = new InteractionRouter();
+  });
+
+  it('should answer pings', async () => {
+    await expect(router.handle(interaction(InteractionType.Ping), { api, env }))
+      .resolves.toEqual({ type: InteractionResponseType.Pong });
+  });
+
+  it('should dispatch chat input commands and pass the context', async () => {
+    router.command('greet', (_, { env }) => reply(env.GREETING));
+
+    await expect(router.handle(chatInput('greet'), { api, env })).resolves.toEqual(reply('hi'));
+    await expect(router.handle(chatInput('unknown'), { api, env })).resolves.toBeNull();
+  });
+
+  it('should route subcommands and groups to the most specific handler', async () => {
+    router
+      .command('admin', () => reply('admin'))
+      .command('admin ban', () => reply('ban'))
+      .command('admin roles add', () => reply('roles add'));
+
+    const ban = chatInput('admin', [{ type: ApplicationCommandOptionType.Subcommand, name: 'ban', options: [] }]);
+    const kick = chatInput('admin', [{ type: ApplicationCommandOptionType.Subcommand, name: 'kick', options: [] }]);
+    const rolesAdd = chatInput('admin', [{
+      type: ApplicationCommandOptionType.SubcommandGroup,
+      name: 'roles',
+      options: [{ type: ApplicationCommandOptionType.Subcommand, name: 'add', options: [] }],
+    }]);
+
+    await expect(router.handle(ban, { api, env })).resolves.toEqual(reply('ban'));
+    await expect(router.handle(kick, { api, env })).resolves.toEqual(reply('admin'));
+    await expect(router.handle(rolesAdd, { api, env })).resolves.toEqual(reply('roles add'));
+  });
+
+  it('should keep user and message context menus apart', async () => {
+    router
+      .userCommand('Info', () => reply('user'))
+      .messageCommand('Info', () => reply('message'));
+
+    const userCommand = interaction(InteractionType.ApplicationCommand, {
+      id: '2',
+      name: 'Info',
+      type: ApplicationCommandType.User,
+      target_id: '3',
+    });
+    const messageCommand = interaction(InteractionType.ApplicationCommand, {
+      id: '2',
+      name: 'Info',
+      type: ApplicationCommandType.Message,
+      target_id: '3',
+    });
+
+    await expect(router.handle(userCommand, { api, env })).resolves.toEqual(reply('user'));
+    await expect(router.handle(messageCommand, { api, env })).resolves.toEqual(reply('message'));
+  });
+
+  it('should match component and modal custom ids', async () => {
+    router
+      .component('confirm', () => reply('confirmed'))
+      .component(/^page:(\d+)$/, (_, { match }) => reply(`page ${match![1]}`))
+      .modal('feedback', () => reply('thanks'));
+
+    const button = (customId: string) => interaction(InteractionType.MessageComponent, {
+      custom_id: customId,
+      component_type: ComponentType.Button,
+    });
+
+    await expect(router.handle(button('confirm'), { api, env })).resolves.toEqual(reply('confirmed'));
+    await expect(router.handle(button('page:3'), { api, env })).resolves.toEqual(reply('page 3'));
+    await expect(router.handle(button('page:x'), { api, env })).resolves.toBeNull();
+    await expect(router.handle(
+      interaction(InteractionType.ModalSubmit, { custom_id: 'feedback', components: [] }),
+      { api, env },
+    )).resolves.toEqual(reply('thanks'));
+  });
+
+  it('should dispatch autocomplete by command name', async () => {
+    const choices = {
+      type: InteractionResponseType.ApplicationCommandAutocompleteResult as const,
+      data: { choices: [{ name: 'One', value: 'one' }] },
+    };
+    router.autocomplete('search', () => choices);
+
+    const autocomplete = interaction(InteractionType.ApplicationCommandAutocomplete, {
+      id: '2',
+      name: 'search',
+      type: ApplicationCommandType.ChatInput,
+      options: [],
+    });
+
+    await expect(router.handle(autocomplete, { api, env })).resolves.toEqual(choices);
+  });
+
+  it('should take the response sent through the interaction', async () => {
+    const followUp = vi.spyOn(api.interactions, 'followUp').mockResolvedValue({} as any);
+    router.command('greet', async (interaction) => {
+      await interaction.reply({ content: 'now' });
+      await interaction.followUp({ content: 'later' });
+    });
+
+    await expect(router.handle(chatInput('greet'), { api, env })).resolves.toEqual(reply('now'));
+    expect(followUp).toHaveBeenCalledWith('111111111', 'interaction-token', { content: 'later' });
+  });
+
+  it('should reject handlers that never respond', async () => {
+    router.command('greet', () => {});
+
+    await expect(router.handle(chatInput('greet'), { api, env })).rejects.toThrow('neither returned nor sent a response');
+  });
+
+  it('should verify requests and serialize the response', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const publicKey = Buffer.from(await crypto.subtle.exportKey('raw', keyPair.publicKey) as ArrayBuffer).toString('hex');
+    router.command('greet', () => reply('hello'));
+
+    const body = JSON.stringify(chatInput('greet'));
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = await crypto.subtle.sign('Ed25519', keyPair.privateKey, new TextEncoder().encode(timestamp + body));
+    const request = (headers: Record<string, string>) => new Request('https://example.com/interactions', {
+      method: 'POST',
+      headers,
+      body,
+    });
+
+    const response = await router.fetch(request({
+      'X-Signature-Ed25519': Buffer.from(signature).toString('hex'),
+      'X-Signature-Timestamp': timestamp,
+    }), publicKey, { api, env });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    await expect(response.json()).resolves.toEqual(reply('hello'));
+
+    const unsigned = await router.fetch(request({}), publicKey, { api, env });
+    expect(unsigned.status).toBe(401);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+  type APIChatInputApplicationCommandInteraction,
+} from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import { Interaction } from '../src/interactions/Interaction';
+import { MissingOptionError } from '../src/interactions/MissingOptionError';
+import { REST } from '../src/rest/REST';
+import { interaction } from './helpers';
+
+function chatInput(options: unknown[] = [], resolved: unknown = undefined) {
+  return interaction<APIChatInputApplicationCommandInteraction>(
+    InteractionType.ApplicationCommand,
+    { id: '2', name: 'test', type: ApplicationCommandType.ChatInput, options, resolved },
+    { member: { user: { id: '42', username: 'member' } }, guild_id: '222222222' },
+  );
+}
+
+describe('Interaction', () => {
+  let api: API;
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+    vi.spyOn(api.interactions, 'reply').mockResolvedValue(undefined as never);
+    vi.spyOn(api.interactions, 'editReply').mockResolvedValue({ id: 'original' } as any);
+    vi.spyOn(api.interactions, 'followUp').mockResolvedValue({ id: 'followup' } as any);
+  });
+
+  it('should expose the interaction metadata', () => {
+    const interaction = new Interaction(api, chatInput());
+
+    expect(interaction.applicationId).toBe('111111111');
+    expect(interaction.user?.id).toBe('42');
+    expect(interaction.guildId).toBe('222222222');
+    expect(interaction.data.name).toBe('test');
+  });
+
+  it('should send the first reply to the callback endpoint and later ones as follow-ups', async () => {
+    const interaction = new Interaction(api, chatInput());
+
+    await interaction.reply({ content: 'first', ephemeral: true });
+    await interaction.reply({ content: 'second' });
+
+    expect(api.interactions.reply).toHaveBeenCalledWith('1', 'interaction-token', {
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: 'first', flags: MessageFlags.Ephemeral },
+      files: undefined,
+    });
+    expect(api.interactions.followUp).toHaveBeenCalledWith('111111111', 'interaction-token', { content: 'second' });
+    expect(interaction.replied).toBe(true);
+  });
+
+  it('should edit the deferred response on the next reply', async () => {
+    const interaction = new Interaction(api, chatInput());
+
+    await interaction.deferReply({ ephemeral: true });
+    await interaction.reply({ content: 'done' });
+
+    expect(api.interactions.reply).toHaveBeenCalledWith('1', 'interaction-token', {
+      type: InteractionResponseType.DeferredChannelMessageWithSource,
+      data: { flags: MessageFlags.Ephemeral },
+    });
+    expect(api.interactions.editReply).toHaveBeenCalledWith('111111111', 'interaction-token', { content: 'done' });
+    expect(interaction.deferred).toBe(true);
+    expect(interaction.replied).toBe(true);
+  });
+
+  it('should hand the initial response to `respond` when given', async () => {
+    const respond = vi.fn();
+    const interaction = new Interaction(api, chatInput(), { respond });
+
+    await interaction.showModal({ custom_id: 'modal', title: 'Title', components: [] });
+
+    expect(respond).toHaveBeenCalledWith({
+      type: InteractionResponseType.Modal,
+      data: { custom_id: 'modal', title: 'Title', components: [] },
+    });
+    expect(api.interactions.reply).not.toHaveBeenCalled();
+  });
+
+  it('should refuse responses in the wrong state', async () => {
+    const interaction = new Interaction(api, chatInput());
+
+    await expect(interaction.editReply({ content: 'edit' })).rejects.toThrow('must be replied to or deferred first');
+    await expect(interaction.followUp({ content: 'follow' })).rejects.toThrow('must be replied to or deferred first');
+
+    await interaction.deferReply();
+    await expect(interaction.deferReply()).rejects.toThrow('already been responded to');
+    await expect(interaction.respondAutocomplete([])).rejects.toThrow('already been responded to');
+  });
+
+  it('should read options inside subcommands and resolve entities', () => {
+    const interaction = new Interaction(api, chatInput([{
+      type: ApplicationCommandOptionType.SubcommandGroup,
+      name: 'config',
+      options: [{
+        type: ApplicationCommandOptionType.Subcommand,
+        name: 'set',
+        options: [
+          { type: ApplicationCommandOptionType.String, name: 'key', value: 'prefix' },
+          { type: ApplicationCommandOptionType.Integer, name: 'limit', value: 5 },
+          { type: ApplicationCommandOptionType.User, name: 'target', value: '42' },
+          { type: ApplicationCommandOptionType.Attachment, name: 'file', value: '99' },
+        ],
+      }],
+    }], {
+      users: { 42: { id: '42', username: 'member' } },
+      members: { 42: { nick: 'Member', roles: [] } },
+      attachments: { 99: { id: '99', filename: 'a.png' } },
+    }));
+
+    expect(interaction.getSubcommandGroup()).toBe('config');
+    expect(interaction.getSubcommand()).toBe('set');
+    expect(interaction.getString('key', true)).toBe('prefix');
+    expect(interaction.getInteger('limit')).toBe(5);
+    expect(interaction.getBoolean('missing')).toBeNull();
+    expect(interaction.getUser('target')?.username).toBe('member');
+    expect(interaction.getMember('target')?.nick).toBe('Member');
+    expect(interaction.getAttachment('file', true).filename).toBe('a.png');
+  });
+
+  it('should throw for missing required options and mismatched types', () => {
+    const interaction = new Interaction(api, chatInput([
+      { type: ApplicationCommandOptionType.String, name: 'text', value: 'hello' },
+    ]));
+
+    expect(() => interaction.getString('other', true)).toThrow(MissingOptionError);
+    expect(() => interaction.getInteger('text')).toThrow(TypeError);
+  });
+});
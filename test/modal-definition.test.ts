@@ -0,0 +1,102 @@
+import { describe, it, expect, expectTypeOf, beforeEach } from 'vitest';
+import {
+  ComponentType,
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+  TextInputStyle,
+  type APIModalSubmitInteraction,
+} from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import { InteractionRouter } from '../src/interactions/InteractionRouter';
+import { ModalDefinition } from '../src/interactions/ModalDefinition';
+import { REST } from '../src/rest/REST';
+import { interaction } from './helpers';
+
+const feedback = new ModalDefinition('feedback', {
+  title: 'Feedback',
+  fields: {
+    subject: { label: 'Subject', maxLength: 20 },
+    message: { label: 'Message', style: TextInputStyle.Paragraph, minLength: 10 },
+    email: {
+      label: 'Email',
+      required: false,
+      validate: (value) => value.includes('@') ? undefined : 'must be an email address',
+    },
+  },
+});
+
+function submit(values: Record<string, string>, customId = 'feedback') {
+  return interaction<APIModalSubmitInteraction>(InteractionType.ModalSubmit, {
+    custom_id: customId,
+    components: Object.entries(values).map(([name, value]) => ({
+      type: ComponentType.ActionRow,
+      components: [{ type: ComponentType.TextInput, custom_id: name, value }],
+    })),
+  });
+}
+
+describe('ModalDefinition', () => {
+  let api: API;
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+  });
+
+  it('should render the modal with pre-filled values', () => {
+    const modal = feedback.render({ subject: 'Bug report' });
+
+    expect(modal.custom_id).toBe('feedback');
+    expect(modal.title).toBe('Feedback');
+    expect(modal.components.map((row) => row.components[0])).toEqual([
+      { type: ComponentType.TextInput, custom_id: 'subject', label: 'Subject', style: TextInputStyle.Short, required: true, value: 'Bug report', max_length: 20 },
+      { type: ComponentType.TextInput, custom_id: 'message', label: 'Message', style: TextInputStyle.Paragraph, required: true, min_length: 10 },
+      { type: ComponentType.TextInput, custom_id: 'email', label: 'Email', style: TextInputStyle.Short, required: false },
+    ]);
+  });
+
+  it('should parse submissions into typed values', () => {
+    const result = feedback.parse(submit({ subject: ' Bug ', message: 'It crashes on start', email: '' }));
+
+    expect(result).toEqual({ valid: true, values: { subject: 'Bug', message: 'It crashes on start', email: undefined } });
+    if (result.valid) {
+      expectTypeOf(result.values.subject).toEqualTypeOf<string>();
+      expectTypeOf(result.values.email).toEqualTypeOf<string | undefined>();
+    }
+  });
+
+  it('should collect the errors of invalid submissions', () => {
+    expect(feedback.parse(submit({ subject: 's'.repeat(21), message: 'short', email: 'nope' }))).toEqual({
+      valid: false,
+      errors: [
+        { field: 'subject', label: 'Subject', message: 'must be at most 20 characters long' },
+        { field: 'message', label: 'Message', message: 'must be at least 10 characters long' },
+        { field: 'email', label: 'Email', message: 'must be an email address' },
+      ],
+    });
+    expect(feedback.parse(submit({ message: 'It crashes on start' }))).toMatchObject({
+      valid: false,
+      errors: [{ field: 'subject', message: 'is required' }],
+    });
+  });
+
+  it('should pass values to router handlers and answer errors ephemerally', async () => {
+    const router = new InteractionRouter().modal(feedback, (interaction, { state }) => ({
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: `Thanks for reporting "${state.subject}"` },
+    }));
+
+    await expect(router.handle(submit({ subject: 'Bug', message: 'It crashes on start' }), { api, env: {} })).resolves.toEqual({
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: 'Thanks for reporting "Bug"' },
+    });
+    await expect(router.handle(submit({ subject: 'Bug', message: 'short' }), { api, env: {} })).resolves.toEqual({
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: {
+        content: 'Please check your input:\n- **Message** must be at least 10 characters long',
+        flags: MessageFlags.Ephemeral,
+      },
+    });
+    await expect(router.handle(submit({}, 'other'), { api, env: {} })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OAuth2API, createPKCEChallenge, generateOAuth2State } from '../src/api/oauth2';
+import { REST } from '../src/rest/REST';
+import { jsonResponse } from './helpers';
+
+describe('OAuth2API', () => {
+  let makeRequest: ReturnType<typeof vi.fn>;
+  let oauth2: OAuth2API;
+
+  beforeEach(() => {
+    makeRequest = vi.fn().mockImplementation(async () => jsonResponse({ access_token: 'access' }));
+    oauth2 = new OAuth2API(new REST({ makeRequest }).setToken('bot-token'));
+  });
+
+  function sentRequest(call = 0): { url: string; headers: Headers; body: URLSearchParams } {
+    const [url, init] = makeRequest.mock.calls[call];
+    return { url, headers: init.headers, body: init.body };
+  }
+
+  it('should generate an authorization URL with a PKCE challenge', async () => {
+    const pkce = await createPKCEChallenge();
+    const url = new URL(oauth2.generateAuthorizationURL({
+      response_type: 'code',
+      client_id: '123456789012345678',
+      scope: 'identify guilds',
+      redirect_uri: 'https://example.com/callback',
+      state: 'state',
+      code_challenge: pkce.code_challenge,
+      code_challenge_method: pkce.code_challenge_method,
+    }));
+
+    expect(url.origin + url.pathname).toBe('https://discord.com/api/v10/oauth2/authorize');
+    expect(url.searchParams.get('scope')).toBe('identify guilds');
+    expect(url.searchParams.get('redirect_uri')).toBe('https://example.com/callback');
+    expect(url.searchParams.get('code_challenge')).toBe(pkce.code_challenge);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+  });
+
+  it('should derive the PKCE challenge from the verifier', async () => {
+    const pkce = await createPKCEChallenge();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pkce.code_verifier));
+    const expected = Buffer.from(digest).toString('base64url');
+
+    expect(pkce.code_verifier).toMatch(/^[\w-]{43}$/);
+    expect(pkce.code_challenge).toBe(expected);
+    expect(generateOAuth2State()).not.toBe(generateOAuth2State());
+  });
+
+  it('should exchange codes with a form encoded body and no bot token', async () => {
+    await oauth2.tokenExchange({
+      grant_type: 'authorization_code',
+      client_id: '123456789012345678',
+      client_secret: 'secret',
+      code: 'code',
+      redirect_uri: 'https://example.com/callback',
+      code_verifier: 'verifier',
+    });
+
+    const { url, headers, body } = sentRequest();
+    expect(url).toBe('https://discord.com/api/v10/oauth2/token');
+    expect(headers.get('Authorization')).toBeNull();
+    expect(body).toBeInstanceOf(URLSearchParams);
+    expect(Object.fromEntries(body)).toEqual({
+      grant_type: 'authorization_code',
+      client_id: '123456789012345678',
+      client_secret: 'secret',
+      code: 'code',
+      redirect_uri: 'https://example.com/callback',
+      code_verifier: 'verifier',
+    });
+  });
+
+  it('should refresh tokens', async () => {
+    await oauth2.refreshToken({
+      grant_type: 'refresh_token',
+      client_id: '123456789012345678',
+      client_secret: 'secret',
+      refresh_token: 'refresh',
+    });
+
+    expect(sentRequest().body.get('refresh_token')).toBe('refresh');
+  });
+
+  it('should authenticate client credentials and revocations with the application secret', async () => {
+    await oauth2.getToken('123456789012345678', 'secret', { grant_type: 'client_credentials', scope: 'identify' });
+    makeRequest.mockResolvedValueOnce(new Response(null, { status: 200 }));
+    await oauth2.revokeToken('123456789012345678', 'secret', { token: 'access', token_type_hint: 'access_token' });
+
+    const basic = `Basic ${btoa('123456789012345678:secret')}`;
+    expect(sentRequest(0).headers.get('Authorization')).toBe(basic);
+    expect(sentRequest(1).url).toBe('https://discord.com/api/v10/oauth2/token/revoke');
+    expect(sentRequest(1).headers.get('Authorization')).toBe(basic);
+    expect(sentRequest(1).body.get('token')).toBe('access');
+  });
+
+  it('should get the current authorization with a bearer token', async () => {
+    await oauth2.getCurrentAuthorizationInformation({ auth: { type: 'Bearer', token: 'access' } });
+
+    const { url, headers } = sentRequest();
+    expect(url).toBe('https://discord.com/api/v10/oauth2/@me');
+    expect(headers.get('Authorization')).toBe('Bearer access');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  InteractionType,
+  type APIApplicationCommandAutocompleteInteraction,
+  type APIChatInputApplicationCommandInteraction,
+  type APIRole,
+} from 'discord-api-types/v10';
+import { MissingOptionError } from '../src/interactions/MissingOptionError';
+import { parseOptions, type ResolvedUserOption } from '../src/interactions/options';
+import { interaction } from './helpers';
+
+function chatInput(name: string, options: unknown[], resolved: unknown = undefined) {
+  return interaction<APIChatInputApplicationCommandInteraction>(
+    InteractionType.ApplicationCommand,
+    { id: '2', name, type: ApplicationCommandType.ChatInput, options, resolved },
+  );
+}
+
+const ban = {
+  name: 'ban',
+  description: 'Bans a user',
+  options: [
+    { type: ApplicationCommandOptionType.User, name: 'user', description: 'User to ban', required: true },
+    { type: ApplicationCommandOptionType.Integer, name: 'days', description: 'Days of messages to delete' },
+    {
+      type: ApplicationCommandOptionType.String,
+      name: 'reason',
+      description: 'Reason',
+      choices: [{ name: 'Spam', value: 'spam' }, { name: 'Other', value: 'other' }],
+    },
+  ],
+} as const;
+
+const config = {
+  name: 'config',
+  description: 'Configures the bot',
+  options: [
+    {
+      type: ApplicationCommandOptionType.SubcommandGroup,
+      name: 'roles',
+      description: 'Role settings',
+      options: [{
+        type: ApplicationCommandOptionType.Subcommand,
+        name: 'add',
+        description: 'Adds a role',
+        options: [{ type: ApplicationCommandOptionType.Role, name: 'role', description: 'Role', required: true }],
+      }],
+    },
+    {
+      type: ApplicationCommandOptionType.Subcommand,
+      name: 'reset',
+      description: 'Resets all settings',
+      options: [{ type: ApplicationCommandOptionType.Boolean, name: 'confirm', description: 'Confirm' }],
+    },
+  ],
+} as const;
+
+describe('parseOptions', () => {
+  it('should resolve typed values from a flat command', () => {
+    const interaction = chatInput('ban', [
+      { type: ApplicationCommandOptionType.User, name: 'user', value: '42' },
+      { type: ApplicationCommandOptionType.String, name: 'reason', value: 'spam' },
+    ], {
+      users: { 42: { id: '42', username: 'spammer' } },
+      members: { 42: { nick: 'Spammer', roles: [] } },
+    });
+
+    const { options, subcommand } = parseOptions(interaction, ban);
+
+    expectTypeOf(options.user).toEqualTypeOf<ResolvedUserOption>();
+    expectTypeOf(options.days).toEqualTypeOf<number | undefined>();
+    expectTypeOf(options.reason).toEqualTypeOf<'spam' | 'other' | undefined>();
+
+    expect(subcommand).toBeNull();
+    expect(options.user.user.username).toBe('spammer');
+    expect(options.user.member?.nick).toBe('Spammer');
+    expect(options.days).toBeUndefined();
+    expect(options.reason).toBe('spam');
+  });
+
+  it('should walk subcommand groups and narrow on the subcommand', () => {
+    const interaction = chatInput('config', [{
+      type: ApplicationCommandOptionType.SubcommandGroup,
+      name: 'roles',
+      options: [{
+        type: ApplicationCommandOptionType.Subcommand,
+        name: 'add',
+        options: [{ type: ApplicationCommandOptionType.Role, name: 'role', value: '7' }],
+      }],
+    }], { roles: { 7: { id: '7', name: 'Moderator' } } });
+
+    const parsed = parseOptions(interaction, config);
+
+    expect(parsed.subcommandGroup).toBe('roles');
+    if (parsed.subcommand === 'add') {
+      expectTypeOf(parsed.options.role).toEqualTypeOf<APIRole>();
+      expect(parsed.options.role.name).toBe('Moderator');
+    } else {
+      expectTypeOf(parsed.options.confirm).toEqualTypeOf<boolean | undefined>();
+      expect.unreachable();
+    }
+  });
+
+  it('should throw a MissingOptionError for missing required options', () => {
+    const interaction = chatInput('config', [{
+      type: ApplicationCommandOptionType.SubcommandGroup,
+      name: 'roles',
+      options: [{ type: ApplicationCommandOptionType.Subcommand, name: 'add', options: [] }],
+    }]);
+
+    expect(() => parseOptions(interaction, config)).toThrow(MissingOptionError);
+    try {
+      parseOptions(interaction, config);
+    } catch (error) {
+      expect(error).toMatchObject({ optionName: 'role', commandName: 'config roles add' });
+    }
+  });
+
+  it('should not require options that are not filled in yet during autocomplete', () => {
+    const interaction = {
+      ...chatInput('ban', [{ type: ApplicationCommandOptionType.Integer, name: 'days', value: 1, focused: true }]),
+      type: InteractionType.ApplicationCommandAutocomplete,
+    } as unknown as APIApplicationCommandAutocompleteInteraction;
+
+    expect(parseOptions(interaction, ban).options).toEqual({ days: 1 });
+  });
+});
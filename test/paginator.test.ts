@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ButtonStyle,
+  ComponentType,
+  InteractionResponseType,
+  InteractionType,
+  MessageFlags,
+  type APIButtonComponentWithCustomId,
+} from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import { InteractionRouter } from '../src/interactions/InteractionRouter';
+import { Paginator } from '../src/interactions/Paginator';
+import { REST } from '../src/rest/REST';
+import { interaction } from './helpers';
+
+const click = (customId: string) => interaction(InteractionType.MessageComponent, {
+  custom_id: customId,
+  component_type: ComponentType.Button,
+});
+
+const buttons = (message: { components: { components: unknown[] }[] }) =>
+  message.components[0].components as APIButtonComponentWithCustomId[];
+
+describe('Paginator', () => {
+  let api: API;
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+  });
+
+  it('should render a page with buttons to its neighbours', async () => {
+    const paginator = new Paginator('fruits', {
+      pages: [{ title: 'Apple' }, { title: 'Banana', footer: { text: 'Fruits' } }, { title: 'Cherry' }],
+    });
+
+    const first = await paginator.render();
+    expect(first.embeds).toEqual([{ title: 'Apple', footer: { text: 'Page 1/3' } }]);
+    expect(buttons(first)).toEqual([
+      { type: ComponentType.Button, style: ButtonStyle.Secondary, label: '◀', custom_id: 'fruits:1:0;', disabled: true },
+      { type: ComponentType.Button, style: ButtonStyle.Secondary, label: '▶', custom_id: 'fruits:1:1;', disabled: false },
+    ]);
+
+    const second = await paginator.render(1);
+    expect(second.embeds[0].footer).toEqual({ text: 'Fruits • Page 2/3' });
+    expect(buttons(second).map((button) => [button.custom_id, button.disabled])).toEqual([['fruits:1:0;', false], ['fruits:1:2;', false]]);
+
+    expect(buttons(await paginator.render(5)).map((button) => button.disabled)).toEqual([false, true]);
+    expect((await new Paginator('single', { pages: [{ title: 'Only' }] }).render()).components).toEqual([]);
+  });
+
+  it('should fetch pages with the key they were sent with', async () => {
+    const pages = vi.fn(async ({ page, key }: { page: number; key: string }) => ({
+      embed: { description: `${key} ${page}` },
+      total: 4,
+    }));
+    const paginator = new Paginator('search', { pages });
+
+    const message = await paginator.render(2, { key: 'cats', env: {} });
+
+    expect(message.embeds[0].description).toBe('cats 2');
+    expect(buttons(message).map((button) => button.custom_id)).toEqual(['search:1:1;cats', 'search:1:3;cats']);
+    expect(pages).toHaveBeenCalledWith({ page: 2, key: 'cats', env: {} });
+  });
+
+  it('should send the first page to a channel', async () => {
+    const paginator = new Paginator('fruits', { pages: [{ title: 'Apple' }, { title: 'Banana' }] });
+    const createMessage = vi.spyOn(api.channels, 'createMessage').mockResolvedValue({ id: '2' } as any);
+
+    await paginator.send(api, '123');
+
+    expect(createMessage).toHaveBeenCalledWith('123', await paginator.render(0));
+  });
+
+  it('should reply with the first page and update the message on clicks', async () => {
+    const paginator = new Paginator('fruits', { pages: [{ title: 'Apple' }, { title: 'Banana' }] });
+    const router = new InteractionRouter()
+      .command('fruits', (interaction) => paginator.reply(interaction, { ephemeral: true }))
+      .component(paginator.codec, paginator.handler);
+
+    await expect(router.handle(interaction(InteractionType.ApplicationCommand, { id: '3', name: 'fruits', type: 1 }), { api, env: {} }))
+      .resolves.toEqual({
+        type: InteractionResponseType.ChannelMessageWithSource,
+        data: { ...await paginator.render(0), flags: MessageFlags.Ephemeral },
+      });
+    await expect(router.handle(click('fruits:1:1;'), { api, env: {} })).resolves.toEqual({
+      type: InteractionResponseType.UpdateMessage,
+      data: await paginator.render(1),
+    });
+  });
+
+  it('should sign button custom ids', async () => {
+    const env = { SECRET: 'secret' };
+    const paginator = new Paginator<{ SECRET: string }>('fruits', {
+      pages: [{ title: 'Apple' }, { title: 'Banana' }],
+      secret: (env) => env.SECRET,
+    });
+    const router = new InteractionRouter<{ SECRET: string }>().component(paginator.codec, paginator.handler);
+
+    const [, next] = buttons(await paginator.render(0, { env }));
+
+    await expect(router.handle(click(next.custom_id), { api, env })).resolves.toMatchObject({
+      type: InteractionResponseType.UpdateMessage,
+    });
+    await expect(router.handle(click('fruits:1:1;'), { api, env })).resolves.toEqual({
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: 'This list is no longer available.', flags: MessageFlags.Ephemeral },
+    });
+  });
+});
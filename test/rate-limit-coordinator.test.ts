@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { REST } from '../src/rest/REST';
+import { RateLimitCoordinator, RateLimitCoordinatorClient } from '../src/ws/index';
+import { jsonResponse } from './helpers';
+
+// Routes stub requests straight into a single coordinator instance
+function createNamespace(coordinator: RateLimitCoordinator) {
+  return {
+    idFromName: (name: string) => ({ name }),
+    get: () => ({
+      fetch: (url: string, init: RequestInit) => coordinator.fetch(new Request(url, init) as any),
+    }),
+  } as any;
+}
+
+describe('RateLimitCoordinator', () => {
+  let coordinator: RateLimitCoordinator;
+  let client: RateLimitCoordinatorClient;
+
+  beforeEach(() => {
+    coordinator = new RateLimitCoordinator({} as any, {});
+    client = new RateLimitCoordinatorClient(createNamespace(coordinator), 'bot');
+  });
+
+  it('should allow requests on unknown buckets', async () => {
+    await expect(client.acquire({ route: 'GET:/users/@me', majorParameter: 'global', globalLimit: 50 })).resolves.toBeNull();
+  });
+
+  it('should hold requests until an exhausted bucket resets', async () => {
+    const route = 'POST:/channels/:id/messages';
+    await client.update({
+      route,
+      majorParameter: '123',
+      hash: 'abc',
+      limit: 5,
+      remaining: 1,
+      resetAfter: 1000,
+      retryAfter: null,
+      global: false,
+    });
+
+    await expect(client.acquire({ route, majorParameter: '123' })).resolves.toBeNull();
+
+    const limit = await client.acquire({ route, majorParameter: '123' });
+    expect(limit).toMatchObject({ limit: 5, global: false });
+    expect(limit!.timeout).toBeGreaterThan(0);
+    expect(limit!.timeout).toBeLessThanOrEqual(1000);
+
+    // Other major parameters have their own bucket
+    await expect(client.acquire({ route, majorParameter: '456' })).resolves.toBeNull();
+  });
+
+  it('should enforce the global limit across callers', async () => {
+    const data = { route: 'GET:/users/:id', majorParameter: 'global', globalLimit: 2 };
+
+    await expect(client.acquire(data)).resolves.toBeNull();
+    await expect(client.acquire(data)).resolves.toBeNull();
+    await expect(client.acquire(data)).resolves.toMatchObject({ global: true, limit: 2 });
+
+    // Interaction callbacks are exempt
+    await expect(client.acquire({ route: 'POST:/interactions/:id/:token/callback', majorParameter: 'global' })).resolves.toBeNull();
+  });
+
+  it('should apply global 429 responses to every route', async () => {
+    await client.update({
+      route: 'GET:/users/:id',
+      majorParameter: 'global',
+      hash: null,
+      limit: null,
+      remaining: null,
+      resetAfter: null,
+      retryAfter: 500,
+      global: true,
+    });
+
+    await expect(client.acquire({ route: 'GET:/guilds/:id', majorParameter: '1', globalLimit: 50 }))
+      .resolves.toMatchObject({ global: true });
+  });
+});
+
+describe('REST with a rate limit store', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should share bucket state between REST instances', async () => {
+    const coordinator = new RateLimitCoordinator({} as any, {});
+    const namespace = createNamespace(coordinator);
+
+    const sentAt: number[] = [];
+    global.fetch = vi.fn().mockImplementation(async () => {
+      sentAt.push(Date.now());
+      return jsonResponse({}, 200, {
+        'X-RateLimit-Bucket': 'abc',
+        'X-RateLimit-Limit': '1',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset-After': '0.1',
+      });
+    });
+
+    const first = new REST({ offset: 0, rateLimitStore: new RateLimitCoordinatorClient(namespace, 'bot') }).setToken('token');
+    const second = new REST({ offset: 0, rateLimitStore: new RateLimitCoordinatorClient(namespace, 'bot') }).setToken('token');
+
+    await first.post('/channels/123456789012345678/messages', { body: { content: '1' } });
+    await second.post('/channels/123456789012345678/messages', { body: { content: '2' } });
+
+    expect(sentAt).toHaveLength(2);
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(90);
+  });
+
+  it('should fall back to local state when the store fails', async () => {
+    global.fetch = vi.fn().mockResolvedValue(jsonResponse({ id: '1' }));
+
+    const rest = new REST({
+      rateLimitStore: {
+        acquire: () => Promise.reject(new Error('unavailable')),
+        update: () => Promise.reject(new Error('unavailable')),
+      },
+    }).setToken('token');
+
+    await expect(rest.get('/users/@me')).resolves.toEqual({ id: '1' });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { REST } from '../src/rest/REST';
+
+describe('REST authorization', () => {
+  let makeRequest: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    makeRequest = vi.fn().mockImplementation(async () => new Response('{}', {
+      headers: { 'content-type': 'application/json' },
+    }));
+  });
+
+  function sentAuthorization(call = 0): string | null {
+    return (makeRequest.mock.calls[call][1].headers as Headers).get('Authorization');
+  }
+
+  it('should send the bot token by default', async () => {
+    await new REST({ makeRequest }).setToken('bot-token').get('/users/@me');
+    expect(sentAuthorization()).toBe('Bot bot-token');
+  });
+
+  it('should not prefix tokens twice', async () => {
+    await new REST({ makeRequest }).setToken('Bot bot-token').get('/users/@me');
+    expect(sentAuthorization()).toBe('Bot bot-token');
+  });
+
+  it('should use the configured auth prefix', async () => {
+    await new REST({ makeRequest, authPrefix: 'Bearer' }).setToken('access-token').get('/users/@me');
+    expect(sentAuthorization()).toBe('Bearer access-token');
+  });
+
+  it('should allow overriding authorization per request', async () => {
+    const rest = new REST({ makeRequest }).setToken('bot-token');
+
+    await rest.get('/users/@me/guilds', { auth: { type: 'Bearer', token: 'access-token' } });
+    await rest.get('/users/@me', { auth: 'other-bot-token' });
+    await rest.post('/webhooks/123456789012345678/token', { auth: false, body: {} });
+
+    expect(sentAuthorization(0)).toBe('Bearer access-token');
+    expect(sentAuthorization(1)).toBe('Bot other-bot-token');
+    expect(sentAuthorization(2)).toBeNull();
+  });
+
+  it('should not serve requests with other credentials from the cache', async () => {
+    const store = { get: vi.fn(), put: vi.fn(), delete: vi.fn() };
+    const rest = new REST({ makeRequest, cache: { store, ttl: { '/users/@me': 60 } } }).setToken('bot-token');
+
+    await rest.get('/users/@me', { auth: { type: 'Bearer', token: 'access-token' } });
+
+    expect(store.get).not.toHaveBeenCalled();
+    expect(store.put).not.toHaveBeenCalled();
+  });
+});
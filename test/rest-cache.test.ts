@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { REST, KVCacheStore } from '../src/rest/index';
+import type { CacheStore } from '../src/types';
+import { jsonResponse } from './helpers';
+
+function createMemoryStore() {
+  const entries = new Map<string, unknown>();
+  const store: CacheStore = {
+    get: vi.fn(async (key: string) => entries.get(key)),
+    put: vi.fn(async (key: string, value: unknown) => {
+      entries.set(key, value);
+    }),
+    delete: vi.fn(async (key: string) => {
+      entries.delete(key);
+    }),
+  };
+  return { entries, store };
+}
+
+describe('REST response cache', () => {
+  let makeRequest: ReturnType<typeof vi.fn>;
+  let entries: Map<string, unknown>;
+  let store: CacheStore;
+  let rest: REST;
+
+  beforeEach(() => {
+    let count = 0;
+    makeRequest = vi.fn().mockImplementation(async () => jsonResponse({ count: ++count }));
+    ({ entries, store } = createMemoryStore());
+    rest = new REST({
+      makeRequest,
+      cache: {
+        store,
+        ttl: {
+          '/guilds/:id': 60,
+          '/guilds/:id/roles': 30,
+        },
+      },
+    }).setToken('test-bot-token');
+  });
+
+  it('should serve configured GET routes from the cache', async () => {
+    await expect(rest.get('/guilds/123456789012345678')).resolves.toEqual({ count: 1 });
+    await expect(rest.get('/guilds/123456789012345678')).resolves.toEqual({ count: 1 });
+
+    expect(makeRequest).toHaveBeenCalledTimes(1);
+    expect(store.put).toHaveBeenCalledWith(
+      expect.stringMatching(/^[\da-f]{16}:https:\/\/discord\.com\/api\/v10\/guilds\/123456789012345678$/),
+      { count: 1 },
+      60,
+    );
+  });
+
+  it('should keep the responses of different tokens apart', async () => {
+    const other = new REST({ makeRequest, cache: rest.options.cache }).setToken('other-bot-token');
+
+    await expect(rest.get('/guilds/123456789012345678')).resolves.toEqual({ count: 1 });
+    await expect(other.get('/guilds/123456789012345678')).resolves.toEqual({ count: 2 });
+    await expect(other.get('/guilds/123456789012345678')).resolves.toEqual({ count: 2 });
+    expect(entries.size).toBe(2);
+  });
+
+  it('should prefix cache keys with the configured prefix', async () => {
+    const prefixed = new REST({ makeRequest, cache: { ...rest.options.cache!, prefix: 'app-1:' } }).setToken('test-bot-token');
+
+    await prefixed.get('/guilds/123456789012345678/roles');
+    expect([...entries.keys()]).toEqual(['app-1:https://discord.com/api/v10/guilds/123456789012345678/roles']);
+
+    await prefixed.delete('/guilds/123456789012345678/roles/876543210987654321');
+    expect(entries.size).toBe(0);
+  });
+
+  it('should not cache routes without a TTL', async () => {
+    await rest.get('/users/@me');
+    await rest.get('/users/@me');
+
+    expect(makeRequest).toHaveBeenCalledTimes(2);
+    expect(store.put).not.toHaveBeenCalled();
+  });
+
+  it('should bypass the cache when requested', async () => {
+    await rest.get('/guilds/123456789012345678');
+    await expect(rest.get('/guilds/123456789012345678', { cache: false })).resolves.toEqual({ count: 2 });
+  });
+
+  it('should invalidate the route and its parent on mutations', async () => {
+    await rest.get('/guilds/123456789012345678/roles');
+    expect(entries.size).toBe(1);
+
+    await rest.patch('/guilds/123456789012345678/roles/876543210987654321', { body: { name: 'new' } });
+    expect(entries.size).toBe(0);
+
+    await expect(rest.get('/guilds/123456789012345678/roles')).resolves.toEqual({ count: 3 });
+  });
+
+  it('should keep working when the store fails', async () => {
+    vi.mocked(store.get).mockRejectedValue(new Error('unavailable'));
+
+    await expect(rest.get('/guilds/123456789012345678')).resolves.toEqual({ count: 1 });
+  });
+});
+
+describe('KVCacheStore', () => {
+  it('should store JSON with a TTL of at least 60 seconds', async () => {
+    const namespace = {
+      get: vi.fn().mockResolvedValue(null),
+      put: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+    const store = new KVCacheStore(namespace as any);
+
+    await expect(store.get('key')).resolves.toBeUndefined();
+    expect(namespace.get).toHaveBeenCalledWith('key', 'json');
+
+    await store.put('key', { id: '1' }, 30);
+    expect(namespace.put).toHaveBeenCalledWith('key', '{"id":"1"}', { expirationTtl: 60 });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { REST, DiscordAPIError, HTTPError, RESTJSONErrorCodes } from '../src/rest/index';
+import { jsonResponse } from './helpers';
+
+describe('REST errors', () => {
+  let rest: REST;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    rest = new REST({ retries: 0 });
+    rest.setToken('test-bot-token');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should throw a DiscordAPIError with the JSON error code', async () => {
+    global.fetch = vi.fn().mockResolvedValue(jsonResponse({ message: 'Missing Permissions', code: 50013 }, 403));
+
+    const body = { content: 'Hello' };
+    const error = await rest.post('/channels/123456789012345678/messages', { body }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DiscordAPIError);
+    expect(error.code).toBe(RESTJSONErrorCodes.MissingPermissions);
+    expect(error.status).toBe(403);
+    expect(error.method).toBe('POST');
+    expect(error.url).toBe('https://discord.com/api/v10/channels/123456789012345678/messages');
+    expect(error.requestBody.json).toEqual(body);
+    expect(error.rawError).toEqual({ message: 'Missing Permissions', code: 50013 });
+    expect(error.message).toBe('Missing Permissions');
+  });
+
+  it('should flatten nested field validation errors', async () => {
+    global.fetch = vi.fn().mockResolvedValue(jsonResponse({
+      code: 50035,
+      message: 'Invalid Form Body',
+      errors: {
+        content: {
+          _errors: [{ code: 'BASE_TYPE_MAX_LENGTH', message: 'Must be 2000 or fewer in length.' }],
+        },
+        embeds: {
+          0: {
+            fields: {
+              1: {
+                name: {
+                  _errors: [{ code: 'BASE_TYPE_REQUIRED', message: 'This field is required' }],
+                },
+              },
+            },
+          },
+        },
+      },
+    }, 400));
+
+    await expect(rest.post('/channels/123456789012345678/messages', { body: {} })).rejects.toThrow(
+      [
+        'Invalid Form Body',
+        'content[BASE_TYPE_MAX_LENGTH]: Must be 2000 or fewer in length.',
+        'embeds[0].fields[1].name[BASE_TYPE_REQUIRED]: This field is required',
+      ].join('\n'),
+    );
+  });
+
+  it('should use the OAuth2 error description', async () => {
+    global.fetch = vi.fn().mockResolvedValue(jsonResponse({ error: 'invalid_grant', error_description: 'Invalid "code" in request.' }, 400));
+
+    const error = await rest.post('/oauth2/token', { body: {} }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DiscordAPIError);
+    expect(error.code).toBe('invalid_grant');
+    expect(error.message).toBe('Invalid "code" in request.');
+  });
+
+  it('should throw an HTTPError for server errors', async () => {
+    global.fetch = vi.fn().mockResolvedValue(new Response('<html>Bad Gateway</html>', { status: 502, statusText: 'Bad Gateway' }));
+
+    const error = await rest.get('/users/@me').catch((e) => e);
+
+    expect(error).toBeInstanceOf(HTTPError);
+    expect(error.status).toBe(502);
+    expect(error.method).toBe('GET');
+    expect(error.message).toBe('Bad Gateway');
+  });
+});
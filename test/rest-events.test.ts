@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { REST } from '../src/rest/REST';
+import { RESTEvents } from '../src/constants';
+import { jsonResponse } from './helpers';
+
+describe('REST events', () => {
+  let rest: REST;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    rest = new REST({ offset: 0 });
+    rest.setToken('test-bot-token');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('should dispatch request and response events for each attempt', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ message: 'Bad Gateway' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ id: '1' }, 200, { 'X-RateLimit-Bucket': 'abc' }));
+
+    const requests: any[] = [];
+    const responses: any[] = [];
+    rest.addEventListener(RESTEvents.Request, (event) => requests.push(event.detail));
+    rest.addEventListener(RESTEvents.Response, (event) => responses.push(event.detail));
+
+    await rest.get('/channels/123456789012345678');
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0]).toMatchObject({
+      method: 'GET',
+      url: 'https://discord.com/api/v10/channels/123456789012345678',
+      route: '/channels/:id',
+      majorParameter: '123456789012345678',
+      retries: 0,
+    });
+    expect(requests[1].retries).toBe(1);
+
+    expect(responses).toHaveLength(2);
+    expect(responses[0]).toMatchObject({ status: 502, retries: 0 });
+    expect(responses[1]).toMatchObject({ status: 200, retries: 1, hash: 'abc' });
+    expect(responses[1].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should dispatch debug events when retrying', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ message: 'Bad Gateway' }, 502))
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    const messages: string[] = [];
+    rest.addEventListener(RESTEvents.Debug, (event) => messages.push(event.detail));
+
+    await rest.get('/users/@me');
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toContain('GET /users/@me returned 502, retrying in');
+  });
+});
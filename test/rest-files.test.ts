@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GuildPremiumTier, InteractionResponseType } from 'discord-api-types/v10';
+import { API } from '../src/api/index';
+import { toResponse } from '../src/interactions/InteractionRouter';
+import { REST, AttachmentSizeError, getUploadLimit } from '../src/rest/index';
+import { jsonResponse } from './helpers';
+
+describe('REST file uploads', () => {
+  let makeRequest: ReturnType<typeof vi.fn>;
+  let rest: REST;
+
+  beforeEach(() => {
+    makeRequest = vi.fn().mockImplementation(async () => jsonResponse({ id: '1' }));
+    rest = new REST({ makeRequest }).setToken('test-bot-token');
+  });
+
+  function sentFormData(): FormData {
+    return makeRequest.mock.calls[0][1].body as FormData;
+  }
+
+  it('should generate attachments entries for each file', async () => {
+    await rest.post('/channels/123456789012345678/messages', {
+      body: { content: 'Files' },
+      files: [
+        { name: 'a.txt', data: 'hello', description: 'First file' },
+        { name: 'b.png', data: new Uint8Array([1, 2, 3]), contentType: 'image/png', spoiler: true },
+      ],
+    });
+
+    const formData = sentFormData();
+    const first = formData.get('files[0]') as File;
+    const second = formData.get('files[1]') as File;
+
+    expect(first.name).toBe('a.txt');
+    expect(await first.text()).toBe('hello');
+    expect(second.name).toBe('SPOILER_b.png');
+    expect(second.type).toBe('image/png');
+
+    expect(JSON.parse(formData.get('payload_json') as string)).toEqual({
+      content: 'Files',
+      attachments: [
+        { id: 0, filename: 'a.txt', description: 'First file' },
+        { id: 1, filename: 'SPOILER_b.png' },
+      ],
+    });
+  });
+
+  it('should keep existing attachments and caller overrides', async () => {
+    await rest.patch('/channels/123456789012345678/messages/123456789012345679', {
+      body: {
+        attachments: [
+          { id: '111111111111111111' },
+          { id: 0, description: 'Overridden' },
+        ],
+      },
+      files: [{ name: 'a.txt', data: 'hello', description: 'Original' }],
+    });
+
+    expect(JSON.parse(sentFormData().get('payload_json') as string).attachments).toEqual([
+      { id: '111111111111111111' },
+      { id: 0, filename: 'a.txt', description: 'Overridden' },
+    ]);
+  });
+
+  it('should put attachments into the message of interaction responses', async () => {
+    const files = [{ name: 'a.png', data: 'x', description: 'alt', spoiler: true }];
+    const expected = {
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: {
+        content: 'hi',
+        attachments: [{ id: 0, filename: 'SPOILER_a.png', description: 'alt' }],
+      },
+    };
+
+    await new API(rest).interactions.reply('123456789012345678', 'interaction-token', {
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: 'hi' },
+      files,
+    });
+    expect(JSON.parse(sentFormData().get('payload_json') as string)).toEqual(expected);
+
+    const response = await toResponse({
+      type: InteractionResponseType.ChannelMessageWithSource,
+      data: { content: 'hi' },
+      files,
+    });
+    expect(JSON.parse((await response.formData()).get('payload_json') as string)).toEqual(expected);
+  });
+
+  it('should use custom form field keys', async () => {
+    await rest.post('/channels/123456789012345678/messages', {
+      files: [{ name: 'a.txt', data: 'hello', key: 'files[5]' }],
+    });
+
+    const formData = sentFormData();
+    expect(formData.get('files[5]')).toBeInstanceOf(Blob);
+    expect(JSON.parse(formData.get('payload_json') as string).attachments).toEqual([{ id: 5, filename: 'a.txt' }]);
+  });
+
+  it('should accept blobs, streams and R2 objects', async () => {
+    const stream = new Response('streamed').body!;
+    const r2Object = {
+      size: 6,
+      httpMetadata: { contentType: 'text/markdown' },
+      arrayBuffer: async () => new TextEncoder().encode('stored').buffer,
+    };
+
+    await rest.post('/channels/123456789012345678/messages', {
+      files: [
+        { name: 'blob.txt', data: new Blob(['blob'], { type: 'text/plain' }) },
+        { name: 'stream.txt', data: stream },
+        { name: 'object.md', data: r2Object as any },
+      ],
+    });
+
+    const formData = sentFormData();
+    expect(await (formData.get('files[0]') as File).text()).toBe('blob');
+    expect((formData.get('files[0]') as File).type).toBe('text/plain');
+    expect(await (formData.get('files[1]') as File).text()).toBe('streamed');
+    expect(await (formData.get('files[2]') as File).text()).toBe('stored');
+    expect((formData.get('files[2]') as File).type).toBe('text/markdown');
+  });
+
+  it('should reject files over the upload limit before sending', async () => {
+    const request = rest.post('/channels/123456789012345678/messages', {
+      files: [{ name: 'big.bin', data: new Uint8Array(2048) }],
+      maxUploadSize: 1024,
+    });
+
+    await expect(request).rejects.toThrow(AttachmentSizeError);
+    await expect(request).rejects.toThrow('File "big.bin" is');
+    expect(makeRequest).not.toHaveBeenCalled();
+  });
+
+  it('should not read R2 objects over the upload limit', async () => {
+    const arrayBuffer = vi.fn();
+
+    await expect(rest.post('/channels/123456789012345678/messages', {
+      files: [{ name: 'video.mp4', data: { size: 20 * 1024 * 1024, arrayBuffer } as any }],
+    })).rejects.toThrow('File "video.mp4" is 20 MiB, larger than the 10 MiB upload limit');
+    expect(arrayBuffer).not.toHaveBeenCalled();
+  });
+});
+
+describe('getUploadLimit', () => {
+  it('should return the limit for each boost tier', () => {
+    expect(getUploadLimit(GuildPremiumTier.None)).toBe(10 * 1024 * 1024);
+    expect(getUploadLimit(GuildPremiumTier.Tier1)).toBe(10 * 1024 * 1024);
+    expect(getUploadLimit(GuildPremiumTier.Tier2)).toBe(50 * 1024 * 1024);
+    expect(getUploadLimit(GuildPremiumTier.Tier3)).toBe(100 * 1024 * 1024);
+  });
+});
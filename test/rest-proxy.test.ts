@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { REST, createProxyHandler } from '../src/rest/index';
+import { jsonResponse } from './helpers';
+
+describe('createProxyHandler', () => {
+  let makeRequest: ReturnType<typeof vi.fn>;
+  let rest: REST;
+  const authorize = () => true;
+
+  beforeEach(() => {
+    makeRequest = vi.fn().mockImplementation(async () => jsonResponse({ id: '1' }, 201, {
+      'content-encoding': 'gzip',
+      'X-RateLimit-Bucket': 'abc',
+    }));
+    rest = new REST({ makeRequest }).setToken('test-bot-token');
+  });
+
+  it('should forward API requests with the bot token', async () => {
+    const handler = createProxyHandler(rest, { authorize });
+    const body = JSON.stringify({ content: 'Hello' });
+
+    const response = await handler(new Request('https://proxy.example/api/v10/channels/123456789012345678/messages?foo=bar', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Audit-Log-Reason': 'testing',
+        Cookie: 'secret',
+      },
+      body,
+    }));
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ id: '1' });
+    expect(response.headers.get('X-RateLimit-Bucket')).toBe('abc');
+    expect(response.headers.get('content-encoding')).toBeNull();
+
+    const [url, init] = makeRequest.mock.calls[0];
+    expect(url).toBe('https://discord.com/api/v10/channels/123456789012345678/messages?foo=bar');
+    expect(init.method).toBe('POST');
+    expect(new TextDecoder().decode(init.body)).toBe(body);
+
+    const headers = init.headers as Headers;
+    expect(headers.get('Authorization')).toBe('Bot test-bot-token');
+    expect(headers.get('Content-Type')).toBe('application/json');
+    expect(headers.get('X-Audit-Log-Reason')).toBe('testing');
+    expect(headers.get('Cookie')).toBeNull();
+  });
+
+  it('should pass Discord error responses through unchanged', async () => {
+    makeRequest.mockResolvedValueOnce(jsonResponse({ message: 'Unknown Channel', code: 10003 }, 404));
+
+    const response = await createProxyHandler(rest, { authorize })(new Request('https://proxy.example/api/v10/channels/1'));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ message: 'Unknown Channel', code: 10003 });
+  });
+
+  it('should reject paths outside the API and unsupported methods', async () => {
+    const handler = createProxyHandler(rest, { authorize });
+
+    expect((await handler(new Request('https://proxy.example/health'))).status).toBe(404);
+    expect((await handler(new Request('https://proxy.example/api/v10/users/@me', { method: 'OPTIONS' }))).status).toBe(405);
+    expect(makeRequest).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests that fail authorization', async () => {
+    const unchecked = createProxyHandler(rest, {} as any);
+    expect((await unchecked(new Request('https://proxy.example/api/v10/users/@me'))).status).toBe(401);
+
+    const handler = createProxyHandler(rest, {
+      authorize: (request) => request.headers.get('X-Proxy-Secret') === 'shh',
+    });
+
+    expect((await handler(new Request('https://proxy.example/api/v10/users/@me'))).status).toBe(401);
+    expect((await handler(new Request('https://proxy.example/api/v10/users/@me', {
+      headers: { 'X-Proxy-Secret': 'shh' },
+    }))).status).toBe(201);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { REST, generateRouteData } from '../src/rest/index';
+import { RESTEvents } from '../src/constants';
+import type { RateLimitData } from '../src/types';
+import { jsonResponse } from './helpers';
+
+describe('generateRouteData', () => {
+  it('should use channel and guild ids as the major parameter', () => {
+    expect(generateRouteData('/channels/123456789012345678/messages', 'POST')).toEqual({
+      majorParameter: '123456789012345678',
+      bucketRoute: '/channels/:id/messages',
+      original: '/channels/123456789012345678/messages',
+    });
+    expect(generateRouteData('/guilds/123456789012345678/roles/876543210987654321', 'PATCH')).toMatchObject({
+      majorParameter: '123456789012345678',
+      bucketRoute: '/guilds/:id/roles/:id',
+    });
+  });
+
+  it('should include the webhook token in the major parameter', () => {
+    const data = generateRouteData('/webhooks/123456789012345678/some-token/messages/@original', 'PATCH');
+    expect(data.majorParameter).toBe('123456789012345678/some-token');
+    expect(data.bucketRoute).toBe('/webhooks/:id/:token/messages/@original');
+  });
+
+  it('should collapse reactions and fall back to a global major parameter', () => {
+    expect(generateRouteData('/channels/123456789012345678/messages/123456789012345679/reactions/%F0%9F%91%8D/@me', 'PUT').bucketRoute)
+      .toBe('/channels/:id/messages/:id/reactions/:reaction');
+    expect(generateRouteData('/users/@me', 'GET').majorParameter).toBe('global');
+  });
+
+  it('should give old message deletes their own bucket', () => {
+    // Snowflake from 2016
+    const data = generateRouteData('/channels/123456789012345678/messages/175928847299117063', 'DELETE');
+    expect(data.bucketRoute).toBe('/channels/:id/messages/:id/Delete Old Message');
+  });
+});
+
+describe('REST rate limiting', () => {
+  let rest: REST;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    rest = new REST({ offset: 0 });
+    rest.setToken('test-bot-token');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should wait for an exhausted bucket to reset', async () => {
+    const sentAt: number[] = [];
+    global.fetch = vi.fn().mockImplementation(async () => {
+      sentAt.push(Date.now());
+      return jsonResponse({}, 200, {
+        'X-RateLimit-Bucket': 'abc',
+        'X-RateLimit-Limit': '1',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset-After': '0.1',
+      });
+    });
+
+    const events: RateLimitData[] = [];
+    rest.addEventListener(RESTEvents.RateLimited, (event) => {
+      events.push((event as CustomEvent<RateLimitData>).detail);
+    });
+
+    await rest.post('/channels/123456789012345678/messages', { body: { content: '1' } });
+    await rest.post('/channels/123456789012345678/messages', { body: { content: '2' } });
+
+    expect(sentAt).toHaveLength(2);
+    expect(sentAt[1] - sentAt[0]).toBeGreaterThanOrEqual(90);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      global: false,
+      hash: 'abc',
+      majorParameter: '123456789012345678',
+      route: '/channels/:id/messages',
+      method: 'POST',
+    });
+  });
+
+  it('should queue requests in the same bucket sequentially', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    global.fetch = vi.fn().mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return jsonResponse({});
+    });
+
+    await Promise.all([
+      rest.get('/channels/123456789012345678'),
+      rest.get('/channels/123456789012345678'),
+      rest.get('/channels/123456789012345678'),
+    ]);
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('should emit a rate limit event on 429 responses', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ message: 'You are being rate limited.', retry_after: 0.01, global: true }, 429, {
+          'Retry-After': '0.01',
+          'X-RateLimit-Global': 'true',
+          'X-RateLimit-Scope': 'global',
+        }),
+      )
+      .mockResolvedValueOnce(jsonResponse({ id: '1' }));
+
+    const listener = vi.fn();
+    rest.addEventListener(RESTEvents.RateLimited, listener);
+
+    await expect(rest.get('/users/@me')).resolves.toEqual({ id: '1' });
+
+    expect(listener).toHaveBeenCalled();
+    expect(listener.mock.calls[0][0].detail).toMatchObject({ global: true, scope: 'global' });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { REST } from '../src/rest/REST';
+import { jsonResponse } from './helpers';
+
+describe('REST retries', () => {
+  let rest: REST;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    rest = new REST({ offset: 0, retries: 2 });
+    rest.setToken('test-bot-token');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('should retry 429 responses after retry_after', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ message: 'You are being rate limited.', retry_after: 0.05 }, 429, {
+        'Retry-After': '0.05',
+      }))
+      .mockResolvedValueOnce(jsonResponse({ id: '1' }));
+
+    const start = Date.now();
+    const result = await rest.post('/channels/123456789012345678/messages', { body: { content: 'hi' } });
+
+    expect(result).toEqual({ id: '1' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it('should retry server errors on idempotent requests', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ message: 'Bad Gateway' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ id: '1' }));
+
+    await expect(rest.get('/channels/123456789012345678')).resolves.toEqual({ id: '1' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry network errors on idempotent requests', async () => {
+    global.fetch = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ id: '1' }));
+
+    await expect(rest.delete('/channels/123456789012345678/messages/123456789012345679')).resolves.toEqual({ id: '1' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry server errors on non-idempotent requests', async () => {
+    global.fetch = vi.fn().mockResolvedValue(jsonResponse({ message: 'Bad Gateway' }, 502));
+
+    await expect(rest.post('/channels/123456789012345678/messages', { body: { content: 'hi' } })).rejects.toThrow('502');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry non-idempotent requests that opt in', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ message: 'Bad Gateway' }, 502))
+      .mockResolvedValueOnce(jsonResponse({ id: '1' }));
+
+    await expect(rest.post('/channels/123456789012345678/messages', {
+      body: { content: 'hi' },
+      idempotent: true,
+    })).resolves.toEqual({ id: '1' });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    global.fetch = vi.fn().mockImplementation(async () => jsonResponse({ message: 'Internal Server Error' }, 500));
+
+    await expect(rest.get('/users/@me')).rejects.toThrow('500');
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry requests aborted by the caller', async () => {
+    const controller = new AbortController();
+    global.fetch = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('The operation was aborted', 'AbortError');
+    });
+
+    await expect(rest.get('/users/@me', { signal: controller.signal })).rejects.toThrow('aborted');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
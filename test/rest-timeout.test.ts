@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { REST, TimeoutError } from '../src/rest/index';
+
+// Never resolves on its own, like a request to an unresponsive server
+function hangingRequest(_url: string, init: RequestInit) {
+  return new Promise<Response>((_, reject) => {
+    init.signal?.addEventListener('abort', () => {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    });
+  });
+}
+
+describe('REST timeouts', () => {
+  it('should reject with a TimeoutError when an attempt takes too long', async () => {
+    const rest = new REST({ timeout: 20, makeRequest: hangingRequest }).setToken('token');
+
+    const error = await rest.post('/channels/123456789012345678/messages', { body: {} }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeout).toBe(20);
+    expect(error.method).toBe('POST');
+  });
+
+  it('should keep the timeout when the caller passes a signal', async () => {
+    const rest = new REST({ timeout: 20, makeRequest: hangingRequest }).setToken('token');
+    const controller = new AbortController();
+
+    await expect(rest.post('/channels/123456789012345678/messages', {
+      body: {},
+      signal: controller.signal,
+    })).rejects.toThrow(TimeoutError);
+  });
+
+  it('should allow overriding the timeout per request', async () => {
+    const makeRequest = vi.fn(hangingRequest);
+    const rest = new REST({ timeout: 60_000, makeRequest }).setToken('token');
+
+    const start = Date.now();
+    await expect(rest.post('/channels/123456789012345678/messages', { body: {}, timeout: 20 })).rejects.toThrow(TimeoutError);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should reject with an AbortError when the caller aborts', async () => {
+    const rest = new REST({ timeout: 60_000, makeRequest: hangingRequest }).setToken('token');
+    const controller = new AbortController();
+
+    const request = rest.get('/users/@me', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    const error = await request.catch((e) => e);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect(error.name).toBe('AbortError');
+  });
+
+  it('should stop waiting for a rate limit when the caller aborts', async () => {
+    const makeRequest = vi.fn().mockImplementation(async () => new Response('{}', {
+      headers: {
+        'content-type': 'application/json',
+        'X-RateLimit-Limit': '1',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset-After': '60',
+      },
+    }));
+    const rest = new REST({ makeRequest }).setToken('token');
+    await rest.get('/channels/123456789012345678');
+
+    const start = Date.now();
+    await expect(rest.get('/channels/123456789012345678', { signal: AbortSignal.timeout(20) })).rejects.toThrow();
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(makeRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting for the global rate limit when the caller aborts', async () => {
+    const makeRequest = vi.fn().mockImplementation(async () => new Response('{}', {
+      headers: { 'content-type': 'application/json' },
+    }));
+    const rest = new REST({ makeRequest, globalRequestsPerSecond: 1 }).setToken('token');
+    await rest.get('/users/@me');
+
+    const start = Date.now();
+    await expect(rest.get('/users/@me', { signal: AbortSignal.timeout(20) })).rejects.toThrow();
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(makeRequest).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from 'vitest';
+import { REST } from '../src/rest/REST';
+import { jsonResponse } from './helpers';
+
+describe('REST transport', () => {
+  it('should send requests through a custom makeRequest', async () => {
+    const makeRequest = vi.fn().mockResolvedValue(
+      jsonResponse({ id: '1' }),
+    );
+    const rest = new REST({ makeRequest }).setToken('test-bot-token');
+
+    await expect(rest.post('/channels/123456789012345678/messages', { body: { content: 'hi' } })).resolves.toEqual({ id: '1' });
+
+    const [url, init] = makeRequest.mock.calls[0];
+    expect(url).toBe('https://discord.com/api/v10/channels/123456789012345678/messages');
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe(JSON.stringify({ content: 'hi' }));
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should route requests through a service binding', async () => {
+    const binding = {
+      fetch: vi.fn().mockImplementation(async (url: string) => jsonResponse({ url })),
+    };
+    const rest = new REST({
+      api: 'https://discord-proxy/api/v10',
+      makeRequest: (url, init) => binding.fetch(url, init),
+    });
+
+    await expect(rest.get('/users/@me')).resolves.toEqual({ url: 'https://discord-proxy/api/v10/users/@me' });
+    expect(binding.fetch).toHaveBeenCalledTimes(1);
+  });
+});
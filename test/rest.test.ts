@@ -1,32 +1,37 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { MockAgent, setGlobalDispatcher, Interceptable } from 'undici';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { REST } from '../src/rest/REST';
-import { Routes } from 'discord-api-types/v10';
+import { DiscordAPIError } from '../src/rest/DiscordAPIError';
+import { TimeoutError } from '../src/rest/TimeoutError';
 import { API_BASE } from '../src/constants';
+import { jsonResponse } from './helpers';
 
-function genPath(path: `/${string}`) {
-  return `/api/v10${path}` as const;
+// Never resolves on its own, like a request to an unresponsive server
+function hangingRequest(_url: string, init: RequestInit) {
+  return new Promise<Response>((_, reject) => {
+    init.signal?.addEventListener('abort', () => {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    });
+  });
 }
 
 describe('REST Client', () => {
-  let mockAgent: MockAgent;
-  let mockPool: Interceptable;
   let rest: REST;
   const mockToken = 'test-bot-token';
-  
+  const mockResponse = { id: '123', name: 'test' };
+  const originalFetch = global.fetch;
+
   beforeEach(() => {
-    mockAgent = new MockAgent();
-    mockAgent.disableNetConnect();
-    setGlobalDispatcher(mockAgent);
-    
-    mockPool = mockAgent.get('https://discord.com');
-    
+    // Keeps the backoff between retries at its minimum
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    global.fetch = vi.fn().mockImplementation(async () => jsonResponse(mockResponse));
+
     rest = new REST();
     rest.setToken(mockToken);
   });
 
-  afterEach(async () => {
-    await mockAgent.close();
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
   });
 
   describe('constructor', () => {
@@ -53,73 +58,49 @@ describe('REST Client', () => {
   });
 
   describe('HTTP methods', () => {
-    const mockResponse = { id: '123', name: 'test' };
-
     it('should make GET requests', async () => {
-      mockPool
-        .intercept({
-          path: genPath('/test'),
-          method: 'GET',
-        })
-        .reply(() => ({
-          data: mockResponse,
-          statusCode: 200,
-          responseOptions: {
-            headers: {
-              'content-type': 'application/json',
-            },
-          },
-        }));
-      
       const result = await rest.get('/test');
+
+      expect(fetch).toHaveBeenCalledWith(`${API_BASE}/test`, expect.objectContaining({ method: 'GET' }));
       expect(result).toEqual(mockResponse);
     });
 
     it('should make POST requests with body', async () => {
       const body = { content: 'Hello' };
-      
-      mockPool
-        .intercept({
-          path: genPath('/test'),
+      const result = await rest.post('/test', { body });
+
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/test'),
+        expect.objectContaining({
           method: 'POST',
           body: JSON.stringify(body),
-        })
-        .reply(() => ({
-          data: mockResponse,
-          statusCode: 200,
-          responseOptions: {
-            headers: {
-              'content-type': 'application/json',
-            },
-          },
-        }));
-      
-      const result = await rest.post('/test', { body });
+        }),
+      );
       expect(result).toEqual(mockResponse);
     });
 
     it('should make PATCH requests', async () => {
       const body = { content: 'Updated' };
       const result = await rest.patch('/test', { body });
-      
+
       expect(fetch).toHaveBeenCalledWith(
         expect.stringContaining('/test'),
         expect.objectContaining({
           method: 'PATCH',
           body: JSON.stringify(body),
-        })
+        }),
       );
       expect(result).toEqual(mockResponse);
     });
 
     it('should make DELETE requests', async () => {
       const result = await rest.delete('/test');
-      
+
       expect(fetch).toHaveBeenCalledWith(
         expect.stringContaining('/test'),
         expect.objectContaining({
           method: 'DELETE',
-        })
+        }),
       );
       expect(result).toEqual(mockResponse);
     });
@@ -127,86 +108,104 @@ describe('REST Client', () => {
 
   describe('request handling', () => {
     it('should add authorization header when token is set', async () => {
-      global.fetch = vi.fn().mockResolvedValue({
-        ok: true,
-        headers: new Headers({ 'content-type': 'application/json' }),
-        json: () => Promise.resolve({}),
-      });
-
       await rest.get('/test');
-      
-      const [url, options] = (fetch as any).mock.calls[0];
-      const headers = options.headers as Headers;
+
+      const [, options] = vi.mocked(fetch).mock.calls[0];
+      const headers = new Headers(options?.headers);
       expect(headers.get('Authorization')).toBe(`Bot ${mockToken}`);
     });
 
     it('should handle query parameters', async () => {
-      global.fetch = vi.fn().mockResolvedValue({
-        ok: true,
-        headers: new Headers({ 'content-type': 'application/json' }),
-        json: () => Promise.resolve({}),
-      });
-
       const query = new URLSearchParams({ limit: '10', after: '123' });
       await rest.get('/test', { query });
-      
-      const [url] = (fetch as any).mock.calls[0];
+
+      const [url] = vi.mocked(fetch).mock.calls[0];
       expect(url).toContain('?limit=10&after=123');
     });
 
     it('should handle file uploads', async () => {
-      global.fetch = vi.fn().mockResolvedValue({
-        ok: true,
-        headers: new Headers({ 'content-type': 'application/json' }),
-        json: () => Promise.resolve({}),
-      });
-
       const files = [{
         name: 'test.txt',
         data: new TextEncoder().encode('Hello World'),
         contentType: 'text/plain',
       }];
-      
+
       await rest.post('/test', { files, body: { content: 'Test' } });
-      
-      const [, options] = (fetch as any).mock.calls[0];
-      expect(options.body).toBeInstanceOf(FormData);
+
+      const [, options] = vi.mocked(fetch).mock.calls[0];
+      expect(options?.body).toBeInstanceOf(FormData);
     });
   });
 
   describe('error handling', () => {
     it('should throw on non-ok responses', async () => {
-      global.fetch = vi.fn().mockResolvedValue({
-        ok: false,
-        status: 404,
-        text: () => Promise.resolve(JSON.stringify({ message: 'Not Found' })),
-      });
+      global.fetch = vi.fn().mockResolvedValue(jsonResponse({ message: 'Not Found', code: 0 }, 404));
 
-      await expect(rest.get('/test')).rejects.toThrow('Discord API Error: 404 - Not Found');
+      await expect(rest.get('/test')).rejects.toThrow(DiscordAPIError);
     });
 
     it('should handle network errors', async () => {
       global.fetch = vi.fn().mockRejectedValue(new Error('Network error'));
+      const noRetryRest = new REST({ retries: 0 }).setToken(mockToken);
 
-      await expect(rest.get('/test')).rejects.toThrow('Network error');
+      await expect(noRetryRest.get('/test')).rejects.toThrow('Network error');
+      expect(fetch).toHaveBeenCalledTimes(1);
     });
 
     it('should handle timeout', async () => {
-      let abortController: AbortController | null = null;
-      
-      global.fetch = vi.fn().mockImplementation((url, options) => {
-        abortController = options.signal?.controller || null;
-        return new Promise((resolve, reject) => {
-          options.signal?.addEventListener('abort', () => {
-            reject(new Error('The operation was aborted'));
-          });
-        });
-      });
+      const fastRest = new REST({ timeout: 20, retries: 0, makeRequest: hangingRequest }).setToken(mockToken);
+
+      await expect(fastRest.get('/test')).rejects.toBeInstanceOf(TimeoutError);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry network errors on GET requests with backoff', async () => {
+      global.fetch = vi.fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse(mockResponse));
+
+      const start = Date.now();
+      await expect(rest.get('/test')).resolves.toEqual(mockResponse);
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(245);
+    });
+
+    it('should reject with the last network error once the retries are used up', async () => {
+      global.fetch = vi.fn().mockRejectedValue(new Error('Network error'));
+      const retryRest = new REST({ retries: 1 }).setToken(mockToken);
+
+      await expect(retryRest.get('/test')).rejects.toThrow('Network error');
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry a timed out GET request', async () => {
+      const makeRequest = vi.fn()
+        .mockImplementationOnce(hangingRequest)
+        .mockResolvedValueOnce(jsonResponse(mockResponse));
+      const retryRest = new REST({ timeout: 20, retries: 1, makeRequest }).setToken(mockToken);
+
+      await expect(retryRest.get('/test')).resolves.toEqual(mockResponse);
+      expect(makeRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject with a TimeoutError once every attempt timed out', async () => {
+      const makeRequest = vi.fn(hangingRequest);
+      const retryRest = new REST({ timeout: 20, retries: 1, makeRequest }).setToken(mockToken);
+
+      const error = await retryRest.get('/test').catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.timeout).toBe(20);
+      expect(makeRequest).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry a timed out POST request', async () => {
+      const makeRequest = vi.fn(hangingRequest);
+      const retryRest = new REST({ timeout: 20, retries: 1, makeRequest }).setToken(mockToken);
 
-      const fastRest = new REST({ timeout: 100 });
-      fastRest.setToken(mockToken);
-      
-      await expect(fastRest.get('/test')).rejects.toThrow('The operation was aborted');
+      await expect(retryRest.post('/test', { body: {} })).rejects.toBeInstanceOf(TimeoutError);
+      expect(makeRequest).toHaveBeenCalledTimes(1);
     });
   });
-});
\ No newline at end of file
+});
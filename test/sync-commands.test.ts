@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { APIApplicationCommand } from 'discord-api-types/v10';
+import { API, diffCommands, syncCommands } from '../src/api/index';
+import { REST } from '../src/rest/REST';
+
+function registered(command: Partial<APIApplicationCommand> & { name: string }): APIApplicationCommand {
+  return {
+    id: `id-${command.name}`,
+    application_id: '111111111',
+    version: '1',
+    type: 1,
+    description: '',
+    default_member_permissions: null,
+    dm_permission: true,
+    integration_types: [0],
+    contexts: null,
+    nsfw: false,
+    ...command,
+  };
+}
+
+describe('diffCommands', () => {
+  it('should ignore fields assigned or defaulted by Discord', () => {
+    const existing = [registered({
+      name: 'ping',
+      description: 'Replies with pong',
+      name_localizations: null,
+      options: [{ type: 3, name: 'text', description: 'Text', required: false }],
+    })];
+
+    const diff = diffCommands(existing, [{
+      name: 'ping',
+      description: 'Replies with pong',
+      options: [{ type: 3, name: 'text', description: 'Text' }],
+    }]);
+
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.changed).toHaveLength(0);
+  });
+
+  it('should detect added, changed and removed commands', () => {
+    const existing = [
+      registered({ name: 'ping', description: 'Replies with pong' }),
+      registered({ name: 'old', description: 'No longer used' }),
+      registered({ name: 'Report', type: 3 }),
+    ];
+
+    const diff = diffCommands(existing, [
+      { name: 'ping', description: 'Replies with pong!' },
+      { name: 'echo', description: 'Repeats your message' },
+      { name: 'Report', type: 3, dm_permission: false },
+    ]);
+
+    expect(diff.added.map((command) => command.name)).toEqual(['echo']);
+    expect(diff.changed.map(({ existing }) => existing.name)).toEqual(['ping', 'Report']);
+    expect(diff.removed.map((command) => command.name)).toEqual(['old']);
+  });
+
+  it('should match commands by type as well as name', () => {
+    const diff = diffCommands([registered({ name: 'Info', type: 2 })], [{ name: 'Info', type: 3 }]);
+
+    expect(diff.added).toHaveLength(1);
+    expect(diff.removed).toHaveLength(1);
+  });
+});
+
+describe('syncCommands', () => {
+  let api: API;
+
+  beforeEach(() => {
+    api = new API(new REST().setToken('test-bot-token'));
+    vi.spyOn(api.oauth2, 'getCurrentBotApplicationInformation').mockResolvedValue({ id: '111111111' } as any);
+    vi.spyOn(api.applicationCommands, 'getGlobalCommands').mockResolvedValue([
+      registered({ name: 'ping', description: 'Replies with pong' }),
+      registered({ name: 'old', description: 'No longer used' }),
+      registered({ name: 'stats', description: 'Shows stats' }),
+    ]);
+    vi.spyOn(api.applicationCommands, 'getGuildCommands').mockResolvedValue([]);
+    vi.spyOn(api.applicationCommands, 'createGlobalCommand').mockImplementation(async (_, body) => registered(body as any));
+    vi.spyOn(api.applicationCommands, 'createGuildCommand').mockImplementation(async (_, __, body) => registered(body as any));
+    vi.spyOn(api.applicationCommands, 'editGlobalCommand').mockImplementation(async (_, id, body) => registered({ ...body as any, id }));
+    vi.spyOn(api.applicationCommands, 'deleteGlobalCommand').mockResolvedValue();
+    vi.spyOn(api.applicationCommands, 'bulkOverwriteGlobalCommands');
+  });
+
+  it('should only send requests for commands that differ', async () => {
+    const report = await syncCommands(api, [
+      { name: 'ping', description: 'Replies with pong' },
+      { name: 'stats', description: 'Shows bot stats' },
+      { name: 'echo', description: 'Repeats your message' },
+    ]);
+
+    expect(api.applicationCommands.getGlobalCommands).toHaveBeenCalledWith(
+      '111111111',
+      { with_localizations: true },
+      expect.any(Object),
+    );
+    expect(api.applicationCommands.deleteGlobalCommand).toHaveBeenCalledExactlyOnceWith('111111111', 'id-old', expect.any(Object));
+    expect(api.applicationCommands.editGlobalCommand).toHaveBeenCalledExactlyOnceWith(
+      '111111111',
+      'id-stats',
+      { name: 'stats', description: 'Shows bot stats' },
+      expect.any(Object),
+    );
+    expect(api.applicationCommands.createGlobalCommand).toHaveBeenCalledOnce();
+    expect(api.applicationCommands.bulkOverwriteGlobalCommands).not.toHaveBeenCalled();
+
+    expect(report.unchanged.map((command) => command.name)).toEqual(['ping']);
+    expect(report.commands.map((command) => command.name).sort()).toEqual(['echo', 'ping', 'stats']);
+  });
+
+  it('should not change anything on a dry run', async () => {
+    const report = await syncCommands(api, [], { applicationId: '111111111', dryRun: true });
+
+    expect(report.removed).toHaveLength(3);
+    expect(api.oauth2.getCurrentBotApplicationInformation).not.toHaveBeenCalled();
+    expect(api.applicationCommands.deleteGlobalCommand).not.toHaveBeenCalled();
+  });
+
+  it('should sync guild commands', async () => {
+    await syncCommands(api, [{ name: 'ping', description: 'Replies with pong' }], { guildId: '222222222' });
+
+    expect(api.applicationCommands.getGuildCommands).toHaveBeenCalled();
+    expect(api.applicationCommands.createGuildCommand).toHaveBeenCalledWith(
+      '111111111',
+      '222222222',
+      { name: 'ping', description: 'Replies with pong' },
+      expect.any(Object),
+    );
+    expect(api.applicationCommands.getGlobalCommands).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { InteractionType } from 'discord-api-types/v10';
+import { verifyInteractionRequest } from '../src/interactions/verify';
+
+describe('verifyInteractionRequest', () => {
+  let keyPair: CryptoKeyPair;
+  let publicKey: string;
+  const body = JSON.stringify({ id: '123', application_id: '456', type: InteractionType.Ping, token: 'token', version: 1 });
+
+  beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const raw = await crypto.subtle.exportKey('raw', keyPair.publicKey) as ArrayBuffer;
+    publicKey = Buffer.from(raw).toString('hex');
+  });
+
+  async function signedRequest(payload: string, timestamp = String(Math.floor(Date.now() / 1000))) {
+    const signature = await crypto.subtle.sign('Ed25519', keyPair.privateKey, new TextEncoder().encode(timestamp + payload));
+    return new Request('https://example.com/interactions', {
+      method: 'POST',
+      headers: {
+        'X-Signature-Ed25519': Buffer.from(signature).toString('hex'),
+        'X-Signature-Timestamp': timestamp,
+      },
+      body: payload,
+    });
+  }
+
+  it('should accept a correctly signed request and parse the interaction', async () => {
+    const result = await verifyInteractionRequest(await signedRequest(body), publicKey);
+
+    expect(result.valid).toBe(true);
+    expect(result.valid && result.interaction.type).toBe(InteractionType.Ping);
+  });
+
+  it('should reject a tampered body', async () => {
+    const request = await signedRequest(body);
+    const tampered = new Request(request, { body: body.replace('123', '124') });
+
+    await expect(verifyInteractionRequest(tampered, publicKey)).resolves.toEqual({
+      valid: false,
+      reason: 'invalid_signature',
+    });
+  });
+
+  it('should reject requests signed with another key', async () => {
+    const other = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const otherKey = Buffer.from(await crypto.subtle.exportKey('raw', other.publicKey) as ArrayBuffer).toString('hex');
+
+    const result = await verifyInteractionRequest(await signedRequest(body), otherKey);
+    expect(result).toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('should reject stale timestamps', async () => {
+    const timestamp = String(Math.floor(Date.now() / 1000) - 10 * 60);
+    const result = await verifyInteractionRequest(await signedRequest(body, timestamp), publicKey);
+
+    expect(result).toEqual({ valid: false, reason: 'expired' });
+  });
+
+  it('should reject requests without signature headers or with malformed ones', async () => {
+    const unsigned = new Request('https://example.com/interactions', { method: 'POST', body });
+    await expect(verifyInteractionRequest(unsigned, publicKey)).resolves.toEqual({ valid: false, reason: 'missing_headers' });
+
+    const request = await signedRequest(body);
+    request.headers.set('X-Signature-Ed25519', 'not-hex');
+    await expect(verifyInteractionRequest(request, publicKey)).resolves.toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('should report signed bodies that are not JSON', async () => {
+    const result = await verifyInteractionRequest(await signedRequest('not json'), publicKey);
+    expect(result).toEqual({ valid: false, reason: 'invalid_body' });
+  });
+});